@@ -2,7 +2,7 @@ const express = require('express')
 const mongoose = require('mongoose')
 const cors = require('cors')
 const cookieParser = require('cookie-parser')
-const {checkForAuthenticationCookie} = require('./middlewares/authentication')
+const {checkForAuthenticationCookie , restrictTo} = require('./middlewares/authentication')
 const path = require('path')
 const app = express()
 const User = require("./model/user");
@@ -10,7 +10,9 @@ mongoose.connect("mongodb://127.0.0.1:27017/interview").then(()=>console.log("Mo
                                                             .catch(err => console.log("MongoDB Connection error.."));
 
 require('./jobs/interviewStatusCron');
-app.use(express.json());
+// Workspaces sent to /execute, snapshots and submissions may hold up to
+// LIMITS.maxCodeBytes of code, which JSON escaping can more than double.
+app.use(express.json({ limit: "1mb" }));
 app.use('/public', express.static('public'))
 app.use(express.urlencoded({ extended: false}));
 app.use(cookieParser());
@@ -25,9 +27,15 @@ app.use(cors({
 
 const authRoutes = require("./routes/authRoutes");
 const interviewRoutes = require("./routes/interviewRoutes");
+const executionRoutes = require("./routes/executionRoutes");
+const problemRoutes = require("./routes/problemRoutes");
+const iceServerRoutes = require("./routes/iceServerRoutes");
 
 app.use("/auth",authRoutes);
 app.use("/interviews",interviewRoutes);
+app.use("/execute",executionRoutes);
+app.use("/problems",problemRoutes);
+app.use("/ice-servers",iceServerRoutes);
 
 app.get("/candidates",async (req,res)=>{
     try {
@@ -38,5 +46,14 @@ app.get("/candidates",async (req,res)=>{
     }
 });
 
+app.get("/recruiters",checkForAuthenticationCookie("token"),restrictTo(["recruiter"]),async (req,res)=>{
+    try {
+        const recruiter = await User.find({ role: "recruiter" }).select("name email");
+        return res.status(200).json({ recruiter });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
 const PORT = 8011;
 app.listen(PORT,()=>{ console.log(`Server Started at ${PORT}..`)});
\ No newline at end of file
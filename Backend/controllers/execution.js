@@ -0,0 +1,66 @@
+const Interview = require('../model/interview');
+const { runCode, validateWorkspace, SUPPORTED_LANGUAGES } = require('../services/codeRunner');
+const { isInterviewParticipant } = require('../services/interviewAccess');
+const { emitToRoom, isAdmittedToRoom } = require('../services/roomEvents');
+
+async function executeCode(req,res){
+    if(!req.user){
+        return res.status(401).json({ message: "Authentication required." });
+    }
+
+    const { language, files, entryFile, stdin, roomId } = req.body;
+
+    if(!SUPPORTED_LANGUAGES.includes(language)){
+        return res.status(400).json({ message: "Unsupported language." });
+    }
+
+    try {
+        validateWorkspace(files, entryFile);
+    } catch (error) {
+        return res.status(400).json({ message: error.message });
+    }
+
+    // A run from an interview room is shown to the whole room, straight from here.
+    let room = null;
+    if(roomId !== undefined){
+        try {
+            const interview = await Interview.findOne({ meetingLink: roomId });
+            if(!isInterviewParticipant(interview, req.user)){
+                return res.status(403).json({ message: "Unauthorized." });
+            }
+            if(req.user.role === "candidate" && !(await isAdmittedToRoom(roomId, req.user.id))){
+                return res.status(403).json({ message: "You have not been let into this room." });
+            }
+            room = String(roomId);
+        } catch (error) {
+            return res.status(500).json({ message: "Execution failed.", error: error.message });
+        }
+    }
+
+    const startedBy = req.user.name;
+    if(room) emitToRoom(room, "execution-started", { language, startedBy });
+
+    try {
+        const result = await runCode({ language, files, entryFile, stdin: typeof stdin === "string" ? stdin : "" });
+        if(room) emitToRoom(room, "execution-result", { result, startedBy });
+        return res.status(200).json({ status: true, result });
+    } catch (error) {
+        console.log("Execution Error: ",error);
+        if(room){
+            emitToRoom(room, "execution-result", {
+                result: { stdout: "", stderr: "Execution failed.", exitCode: null, signal: null, timedOut: false, truncated: false, durationMs: 0 },
+                startedBy
+            });
+        }
+        return res.status(500).json({ message: "Execution failed.", error: error.message });
+    }
+}
+
+function getSupportedLanguages(req,res){
+    return res.status(200).json({ languages: SUPPORTED_LANGUAGES });
+}
+
+module.exports = {
+    executeCode,
+    getSupportedLanguages
+}
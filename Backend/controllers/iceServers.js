@@ -0,0 +1,14 @@
+const { getIceServers } = require('../services/iceServers');
+
+// Called before every call, so TURN credentials are fresh and tied to the user.
+function getIceServerConfig(req,res){
+    try {
+        return res.status(200).json({ status: true, ...getIceServers(req.user.id) });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+module.exports = {
+    getIceServerConfig
+}
@@ -1,16 +1,65 @@
 const Interview = require('../model/interview');
+const Problem = require('../model/problem');
+const Snapshot = require('../model/snapshot');
+const User = require('../model/user');
+const { gradeSubmission } = require('../services/grader');
+const { gradeSqlSubmission } = require('../services/sqlGrader');
+const mongoose = require('mongoose');
+const { validateWorkspace, SUPPORTED_LANGUAGES } = require('../services/codeRunner');
+const { isInterviewHost , isInterviewCandidate , isInterviewParticipant } = require('../services/interviewAccess');
+const { emitToRoom, emitToHosts } = require('../services/roomEvents');
+
+// A panel is the lead interviewer plus at most this many more.
+const MAX_PANELISTS = 3;
+
+// SQL is graded against the problem's fixture rather than run as a program.
+const SUBMISSION_LANGUAGES = [...SUPPORTED_LANGUAGES, "sql"];
+
+// Returns the ids without duplicates, or throws when one is not the id of an
+// existing problem.
+async function validateProblemIds(problemIds, field){
+    if(!Array.isArray(problemIds) || !problemIds.every((id) => mongoose.isValidObjectId(id))){
+        throw new Error(`${field} must be an array of problem ids.`);
+    }
+    const uniqueProblemIds = [...new Set(problemIds.map(String))];
+    if(await Problem.countDocuments({ _id: { $in: uniqueProblemIds } }) !== uniqueProblemIds.length){
+        throw new Error("One or more problems do not exist.");
+    }
+    return uniqueProblemIds;
+}
 
 async function createInterview(req,res){
     try {
-        const { title, description, candidate, interviewer, date,time,meetingLink} = req.body;
+        const { title, description, candidate, interviewer, panelists = [], date,time,meetingLink, problems = []} = req.body;
+        if(!Array.isArray(panelists) || panelists.length > MAX_PANELISTS){
+            return res.status(400).json({ message: `A panel can have at most ${MAX_PANELISTS} more interviewers.` });
+        }
+        let uniqueProblemIds;
+        try {
+            uniqueProblemIds = await validateProblemIds(problems, "problems");
+        } catch (error) {
+            return res.status(400).json({ message: error.message });
+        }
+        // The interviewer and panelists get host rights in the room, so they
+        // have to be recruiters.
+        if(typeof interviewer !== "string" || !(await User.exists({ email: interviewer, role: "recruiter" }))){
+            return res.status(400).json({ message: "The interviewer must be a recruiter account." });
+        }
+        const panelistEmails = [...new Set(panelists)].filter((email) => email !== interviewer);
+        if(await User.countDocuments({ email: { $in: panelistEmails }, role: "recruiter" }) !== panelistEmails.length){
+            return res.status(400).json({ message: "Panelists must be recruiter accounts." });
+        }
+
         const interview = new Interview({
             title,
             description,
             candidate,
             interviewer,
+            panelists: panelistEmails,
             date,
             time,
             meetingLink,
+            problems: uniqueProblemIds,
             scheduledBy: req.user.id 
           });
 
@@ -35,7 +84,9 @@ async function getAllInterview(req,res){
     }  
     else if(req.user.role === "recruiter") {
         try {
-            const interviews  = await Interview.find({ scheduledBy: req.user.id }).sort({ date: 1});
+            const interviews  = await Interview.find({
+                $or: [{ scheduledBy: req.user.id }, { panelists: req.user.email }]
+            }).sort({ date: 1});
             return res.status(201).json({ status: true , interviews});
         } catch (error) {
             res.status(500).json({ error: error.message });
@@ -44,7 +95,465 @@ async function getAllInterview(req,res){
     
 }
 
+async function attachProblems(req,res){
+    try {
+        let uniqueProblemIds;
+        try {
+            uniqueProblemIds = await validateProblemIds(req.body.problemIds, "problemIds");
+        } catch (error) {
+            return res.status(400).json({ message: error.message });
+        }
+
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewHost(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        interview.problems = uniqueProblemIds;
+        await interview.save();
+        return res.status(200).json({ status: true, interview });
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+}
+
+async function getInterviewProblems(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink }).populate("problems");
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        return res.status(200).json({ status: true, problems: interview.problems });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+// Everyone expected in the room, with the part they play, so the call can
+// label each video by the interview record rather than by what clients claim.
+async function getInterviewParticipants(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        const expected = [
+            { email: interview.candidate, role: "candidate" },
+            { email: interview.interviewer, role: "interviewer" },
+            ...interview.panelists.map((email) => ({ email, role: "panelist" }))
+        ];
+        const users = await User.find({ email: { $in: expected.map((participant) => participant.email) } }).select("name email");
+        const names = new Map(users.map((user) => [user.email, user.name]));
+
+        const participants = expected.map((participant) => ({
+            ...participant,
+            name: names.get(participant.email) || participant.email
+        }));
+        return res.status(200).json({ status: true, participants });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+async function submitSolution(req,res){
+    try {
+        const { problemId, language, files, entryFile } = req.body;
+        if(!problemId || !language){
+            return res.status(400).json({ message: "Missing required field." });
+        }
+        if(!SUBMISSION_LANGUAGES.includes(language)){
+            return res.status(400).json({ message: `Unsupported language. Supported: ${SUBMISSION_LANGUAGES.join(", ")}.` });
+        }
+        let workspace;
+        try {
+            workspace = validateWorkspace(files, entryFile);
+        } catch (error) {
+            return res.status(400).json({ message: error.message });
+        }
+
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+        if(!interview.problems.some((id) => String(id) === String(problemId))){
+            return res.status(400).json({ message: "Problem is not attached to this interview." });
+        }
+
+        const problem = await Problem.findById(problemId).select("+testCases +sql.expectedQuery");
+        if(!problem){
+            return res.status(404).json({ message: "Problem not found" });
+        }
+
+        let grade;
+        if(language === "sql"){
+            if(!problem.sql){
+                return res.status(400).json({ message: "This problem has no SQL fixture." });
+            }
+            const query = workspace.files.find((file) => file.path === workspace.entryFile).content;
+            grade = await gradeSqlSubmission({ sql: problem.sql, query });
+        } else {
+            grade = await gradeSubmission({ testCases: problem.testCases, language, files, entryFile });
+        }
+
+        interview.submissions.push({
+            problem: problem._id,
+            language,
+            files,
+            entryFile,
+            submittedBy: req.user.id,
+            ...grade
+        });
+        await interview.save();
+
+        const submission = interview.submissions[interview.submissions.length - 1];
+        // The grade reaches the room from here, so nobody can show the room a
+        // result the grader did not give, or one under another name.
+        emitToRoom(interview.meetingLink, "submission-result", { submission, submittedBy: req.user.name });
+        return res.status(201).json({ status: true, submission });
+    } catch (error) {
+        console.log("Submission Error: ",error);
+        res.status(500).json({ error: error.message });
+    }
+}
+
+async function getSubmissions(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        return res.status(200).json({ status: true, submissions: interview.submissions });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+// Oldest snapshots are deleted once an interview has this many.
+const MAX_SNAPSHOTS = 200;
+
+async function getSnapshots(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        const snapshots = await Snapshot.find({ interview: interview._id }).sort({ createdAt: 1 });
+        return res.status(200).json({ status: true, snapshots });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+async function createSnapshot(req,res){
+    try {
+        const { files, entryFile, language, trigger, label } = req.body;
+        if(!language){
+            return res.status(400).json({ message: "Missing required field." });
+        }
+        let workspace;
+        try {
+            workspace = validateWorkspace(files, entryFile);
+        } catch (error) {
+            return res.status(400).json({ message: error.message });
+        }
+
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        const snapshot = await Snapshot.create({
+            interview: interview._id,
+            files: workspace.files,
+            entryFile: workspace.entryFile,
+            language,
+            trigger,
+            label,
+            createdBy: req.user.id,
+            createdByName: req.user.name
+        });
+
+        const expired = await Snapshot.find({ interview: interview._id })
+            .sort({ createdAt: -1 })
+            .skip(MAX_SNAPSHOTS)
+            .select("_id");
+        if(expired.length > 0){
+            await Snapshot.deleteMany({ _id: { $in: expired.map((item) => item._id) } });
+        }
+
+        return res.status(201).json({ status: true, snapshot });
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+}
+
+// Oldest whiteboard exports are dropped once an interview holds this many.
+const MAX_WHITEBOARD_EXPORTS = 20;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+async function getWhiteboardExports(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        return res.status(200).json({ status: true, exports: interview.whiteboardExports });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+// The body is the raw PNG produced by the whiteboard's export button.
+async function createWhiteboardExport(req,res){
+    try {
+        if(!Buffer.isBuffer(req.body) || !req.body.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)){
+            return res.status(400).json({ message: "Expected a PNG image." });
+        }
+
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        // Pushed atomically: the loaded interview has no image bytes, so saving
+        // a rewritten array from it would wipe the earlier exports.
+        const updated = await Interview.findByIdAndUpdate(
+            interview._id,
+            {
+                $push: {
+                    whiteboardExports: {
+                        $each: [{ image: req.body, createdBy: req.user.id, createdByName: req.user.name }],
+                        $slice: -MAX_WHITEBOARD_EXPORTS,
+                    },
+                },
+            },
+            { new: true }
+        );
+
+        const whiteboardExport = updated.whiteboardExports[updated.whiteboardExports.length - 1];
+        return res.status(201).json({ status: true, export: whiteboardExport });
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+}
+
+async function getWhiteboardExportImage(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink }).select("+whiteboardExports.image");
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        const whiteboardExport = interview.whiteboardExports.id(req.params.exportId);
+        if(!whiteboardExport){
+            return res.status(404).json({ message: "Export not found" });
+        }
+
+        return res.type("png").send(whiteboardExport.image);
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+// Oldest integrity events are dropped once an interview holds this many.
+const MAX_INTEGRITY_EVENTS = 2000;
+const MAX_INTEGRITY_BATCH = 50;
+
+// Only the interviewers review these; the candidate just reports them.
+async function getIntegrityEvents(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewHost(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        return res.status(200).json({ status: true, events: interview.integrityEvents });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+async function createIntegrityEvents(req,res){
+    try {
+        const { events } = req.body;
+        if(!Array.isArray(events) || events.length === 0 || events.length > MAX_INTEGRITY_BATCH){
+            return res.status(400).json({ message: `Expected between 1 and ${MAX_INTEGRITY_BATCH} events.` });
+        }
+
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewCandidate(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        const accepted = events.map(({ type, occurredAt, durationMs, pastedLength, pastedExcerpt }) => ({
+            type,
+            occurredAt,
+            durationMs,
+            pastedLength,
+            pastedExcerpt: typeof pastedExcerpt === "string" ? pastedExcerpt.slice(0, 500) : undefined,
+            reportedBy: req.user.id
+        }));
+
+        // Pushed atomically so batches sent close together do not overwrite each other.
+        const updated = await Interview.findByIdAndUpdate(
+            interview._id,
+            { $push: { integrityEvents: { $each: accepted, $slice: -MAX_INTEGRITY_EVENTS } } },
+            { new: true, runValidators: true }
+        );
+
+        // The interviewers' live feed gets what was stored, not what was sent.
+        const stored = updated.integrityEvents.slice(-accepted.length);
+        stored.forEach((event) => emitToHosts(interview.meetingLink, "integrity-event", { event: event.toObject() }));
+
+        return res.status(201).json({ status: true, events: stored });
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+}
+
+const MAX_CALL_QUALITY_REPORTS = 2000;
+const MAX_CALL_QUALITY_BATCH = 20;
+
+async function getCallQualityReports(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewHost(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        return res.status(200).json({ status: true, reports: interview.callQuality });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+// Every participant reports on its own connections, one report per peer.
+async function createCallQualityReports(req,res){
+    try {
+        const { reports } = req.body;
+        if(!Array.isArray(reports) || reports.length === 0 || reports.length > MAX_CALL_QUALITY_BATCH){
+            return res.status(400).json({ message: `Expected between 1 and ${MAX_CALL_QUALITY_BATCH} reports.` });
+        }
+
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        const accepted = reports.map(({
+            remoteEmail, windowStart, windowEnd, sampleCount,
+            avgBitrateInKbps, avgBitrateOutKbps, avgPacketLossPercent, maxPacketLossPercent,
+            avgRttMs, maxRttMs, avgJitterMs, resolution, degradedSamples
+        }) => ({
+            reportedBy: req.user.id,
+            reporterEmail: req.user.email,
+            remoteEmail,
+            windowStart,
+            windowEnd,
+            sampleCount,
+            avgBitrateInKbps,
+            avgBitrateOutKbps,
+            avgPacketLossPercent,
+            maxPacketLossPercent,
+            avgRttMs,
+            maxRttMs,
+            avgJitterMs,
+            resolution,
+            degradedSamples
+        }));
+
+        // Pushed atomically, as every participant reports on its own schedule.
+        await Interview.findByIdAndUpdate(
+            interview._id,
+            { $push: { callQuality: { $each: accepted, $slice: -MAX_CALL_QUALITY_REPORTS } } },
+            { runValidators: true }
+        );
+
+        return res.status(201).json({ status: true, count: accepted.length });
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+}
+
+async function getChatMessages(req,res){
+    try {
+        const interview = await Interview.findOne({ meetingLink: req.params.meetingLink });
+        if(!interview){
+            return res.status(404).json({ message: 'Interview not found' });
+        }
+        if(!isInterviewParticipant(interview, req.user)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        return res.status(200).json({ status: true, messages: interview.chatMessages });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
 module.exports = {
     createInterview,
-    getAllInterview
+    getAllInterview,
+    attachProblems,
+    getInterviewProblems,
+    getInterviewParticipants,
+    submitSolution,
+    getSubmissions,
+    getSnapshots,
+    createSnapshot,
+    getWhiteboardExports,
+    createWhiteboardExport,
+    getWhiteboardExportImage,
+    getIntegrityEvents,
+    createIntegrityEvents,
+    getCallQualityReports,
+    createCallQualityReports,
+    getChatMessages
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+const Problem = require('../model/problem');
+
+const EDITABLE_FIELDS = ["title", "statement", "difficulty", "tags", "starterCode", "examples", "testCases", "sql"];
+
+// Hidden grading data is only ever returned to the recruiter editing the problem.
+const HIDDEN_FIELDS = "+testCases +sql.expectedQuery";
+
+function pickProblemFields(body){
+    const fields = {};
+    for (const key of EDITABLE_FIELDS) {
+        if(body[key] !== undefined){
+            fields[key] = body[key];
+        }
+    }
+    return fields;
+}
+
+async function createProblem(req,res){
+    try {
+        const problem = new Problem({
+            ...pickProblemFields(req.body),
+            createdBy: req.user.id
+        });
+
+        await problem.save();
+        return res.status(201).json({ problem });
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+}
+
+async function getAllProblems(req,res){
+    try {
+        const filter = {};
+        if(req.query.difficulty){
+            filter.difficulty = req.query.difficulty;
+        }
+        if(req.query.tag){
+            filter.tags = req.query.tag;
+        }
+
+        const problems = await Problem.find(filter).sort({ createdAt: -1 });
+        return res.status(200).json({ status: true, problems });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+async function getProblem(req,res){
+    try {
+        // Anyone else gets the problem as a candidate would see it.
+        const problem = await Problem.findOne({ _id: req.params.id, createdBy: req.user.id }).select(HIDDEN_FIELDS)
+            || await Problem.findById(req.params.id);
+        if(!problem){
+            return res.status(404).json({ message: "Problem not found" });
+        }
+
+        return res.status(200).json({ status: true, problem });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+async function updateProblem(req,res){
+    try {
+        const problem = await Problem.findOneAndUpdate(
+            { _id: req.params.id, createdBy: req.user.id },
+            pickProblemFields(req.body),
+            { new: true, runValidators: true }
+        ).select(HIDDEN_FIELDS);
+
+        if(!problem){
+            return res.status(404).json({ message: "Problem not found" });
+        }
+
+        return res.status(200).json({ status: true, problem });
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+}
+
+async function deleteProblem(req,res){
+    try {
+        const problem = await Problem.findOneAndDelete({ _id: req.params.id, createdBy: req.user.id });
+        if(!problem){
+            return res.status(404).json({ message: "Problem not found" });
+        }
+
+        return res.status(200).json({ status: true, message: "Problem deleted" });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+}
+
+module.exports = {
+    createProblem,
+    getAllProblems,
+    getProblem,
+    updateProblem,
+    deleteProblem
+}
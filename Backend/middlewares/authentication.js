@@ -17,6 +17,21 @@ function checkForAuthenticationCookie(cookieName){
     };
 }
 
+function restrictTo(roles = []){
+    return (req,res,next)=>{
+        if(!req.user){
+            return res.status(401).json({ message: "Authentication required." });
+        }
+
+        if(!roles.includes(req.user.role)){
+            return res.status(403).json({ message: "Unauthorized." });
+        }
+
+        return next();
+    };
+}
+
 module.exports = {
-    checkForAuthenticationCookie
+    checkForAuthenticationCookie,
+    restrictTo
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+const { isAdmittedToRoom } = require("../services/roomEvents");
+
+// Candidates only get at a room's data once a host has let them in, and lose
+// it again when removed. Recruiters are let through; the controllers check
+// that they host the interview.
+function requireRoomAdmission(req,res,next){
+    if(!req.user || req.user.role !== "candidate"){
+        return next();
+    }
+
+    isAdmittedToRoom(req.params.meetingLink, req.user.id).then((admitted) => {
+        if(!admitted){
+            return res.status(403).json({ message: "You have not been let into this room." });
+        }
+        return next();
+    });
+}
+
+module.exports = {
+    requireRoomAdmission
+};
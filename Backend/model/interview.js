@@ -1,5 +1,218 @@
 const mongoose = require('mongoose');
 
+const workspaceFileSchema = new mongoose.Schema({
+    path: {
+        type: String,
+        required: true,
+    },
+    content: {
+        type: String,
+        default: "",
+    },
+}, { _id: false });
+
+const testResultSchema = new mongoose.Schema({
+    passed: {
+        type: Boolean,
+        required: true,
+    },
+    timedOut: {
+        type: Boolean,
+        default: false,
+    },
+    exitCode: {
+        type: Number,
+    },
+    durationMs: {
+        type: Number,
+    },
+}, { _id: false });
+
+const submissionSchema = new mongoose.Schema({
+    problem: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "problem",
+        required: true,
+    },
+    language: {
+        type: String,
+        required: true,
+    },
+    files: {
+        type: [workspaceFileSchema],
+        required: true,
+    },
+    entryFile: {
+        type: String,
+        required: true,
+    },
+    submittedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "user",
+    },
+    results: {
+        type: [testResultSchema],
+        default: [],
+    },
+    passedCount: {
+        type: Number,
+        default: 0,
+    },
+    totalCount: {
+        type: Number,
+        default: 0,
+    },
+    status: {
+        type: String,
+        enum: ["Passed","Failed"],
+        required: true,
+    },
+}, { timestamps: true });
+
+// PNG renders of the shared whiteboard. The image bytes are only loaded when
+// one export is requested, never with the interview itself.
+const whiteboardExportSchema = new mongoose.Schema({
+    image: {
+        type: Buffer,
+        select: false,
+    },
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "user",
+    },
+    createdByName: {
+        type: String,
+    },
+}, { timestamps: true });
+
+// Signals from the candidate's browser that the recruiter may want to look
+// into: large pastes, leaving the tab or window, fullscreen exits, devtools.
+const integrityEventSchema = new mongoose.Schema({
+    type: {
+        type: String,
+        enum: ["paste","window-blur","window-focus","tab-hidden","tab-visible","fullscreen-exit","devtools-open"],
+        required: true,
+    },
+    // When it happened in the candidate's browser; events are sent in batches.
+    occurredAt: {
+        type: Date,
+        required: true,
+    },
+    // Time spent away, on the events that mark the candidate coming back.
+    durationMs: {
+        type: Number,
+    },
+    pastedLength: {
+        type: Number,
+    },
+    pastedExcerpt: {
+        type: String,
+        maxlength: 500,
+    },
+    reportedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "user",
+    },
+});
+
+// What one participant's browser measured on its connection to another, summed
+// up over a few minutes of the call. Each side reports its own view, so a bad
+// connection can be pinned on whoever's network saw the trouble.
+const callQualityReportSchema = new mongoose.Schema({
+    reportedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "user",
+    },
+    reporterEmail: {
+        type: String,
+    },
+    // The other end of the measured connection.
+    remoteEmail: {
+        type: String,
+    },
+    windowStart: {
+        type: Date,
+        required: true,
+    },
+    windowEnd: {
+        type: Date,
+        required: true,
+    },
+    sampleCount: {
+        type: Number,
+        required: true,
+        min: 1,
+    },
+    avgBitrateInKbps: {
+        type: Number,
+        min: 0,
+    },
+    avgBitrateOutKbps: {
+        type: Number,
+        min: 0,
+    },
+    avgPacketLossPercent: {
+        type: Number,
+        min: 0,
+        max: 100,
+    },
+    maxPacketLossPercent: {
+        type: Number,
+        min: 0,
+        max: 100,
+    },
+    avgRttMs: {
+        type: Number,
+        min: 0,
+    },
+    maxRttMs: {
+        type: Number,
+        min: 0,
+    },
+    avgJitterMs: {
+        type: Number,
+        min: 0,
+    },
+    // Last received video size, e.g. "1280x720".
+    resolution: {
+        type: String,
+        maxlength: 20,
+    },
+    // Samples that crossed the warning thresholds.
+    degradedSamples: {
+        type: Number,
+        min: 0,
+        default: 0,
+    },
+});
+
+// The in-room chat, kept so links, errors and hints shared during the call
+// are part of the interview record.
+const chatMessageSchema = new mongoose.Schema({
+    text: {
+        type: String,
+        required: true,
+        maxlength: 4000,
+    },
+    author: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "user",
+    },
+    authorName: {
+        type: String,
+    },
+    authorEmail: {
+        type: String,
+    },
+    authorRole: {
+        type: String,
+    },
+    sentAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
 const interviewSchema = new mongoose.Schema({
     title: {
         type: String,
@@ -16,6 +229,11 @@ const interviewSchema = new mongoose.Schema({
         type: String,
         required: true,
     },
+    // Emails of further recruiters on the hiring panel, next to the lead interviewer.
+    panelists: {
+        type: [String],
+        default: [],
+    },
     date: {
         type: Date,
         required: true,
@@ -37,6 +255,30 @@ const interviewSchema = new mongoose.Schema({
         type: mongoose.Schema.Types.ObjectId,
         ref: "user",
         required: true,
+    },
+    problems: [{
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "problem",
+    }],
+    submissions: {
+        type: [submissionSchema],
+        default: [],
+    },
+    whiteboardExports: {
+        type: [whiteboardExportSchema],
+        default: [],
+    },
+    integrityEvents: {
+        type: [integrityEventSchema],
+        default: [],
+    },
+    callQuality: {
+        type: [callQualityReportSchema],
+        default: [],
+    },
+    chatMessages: {
+        type: [chatMessageSchema],
+        default: [],
     }
 }, { timestamps: true });
 
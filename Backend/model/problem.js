@@ -0,0 +1,91 @@
+const mongoose = require('mongoose');
+
+const exampleSchema = new mongoose.Schema({
+    input: {
+        type: String,
+        default: "",
+    },
+    output: {
+        type: String,
+        required: true,
+    },
+    explanation: {
+        type: String,
+    },
+}, { _id: false });
+
+const testCaseSchema = new mongoose.Schema({
+    input: {
+        type: String,
+        default: "",
+    },
+    expectedOutput: {
+        type: String,
+        required: true,
+    },
+}, { _id: false });
+
+// SQL problems run against a database seeded from the fixture; the expected
+// result set is whatever the hidden reference query returns on the same data.
+const sqlSchema = new mongoose.Schema({
+    fixture: {
+        type: String,
+        default: "",
+    },
+    expectedQuery: {
+        type: String,
+        required: true,
+        select: false,
+    },
+    orderMatters: {
+        type: Boolean,
+        default: false,
+    },
+}, { _id: false });
+
+const problemSchema = new mongoose.Schema({
+    title: {
+        type: String,
+        required: true,
+    },
+    statement: {
+        type: String,
+        required: true,
+    },
+    difficulty: {
+        type: String,
+        enum: ["Easy","Medium","Hard"],
+        default: "Easy",
+    },
+    tags: {
+        type: [String],
+        default: [],
+    },
+    starterCode: {
+        type: Map,
+        of: String,
+        default: {},
+    },
+    examples: {
+        type: [exampleSchema],
+        default: [],
+    },
+    sql: {
+        type: sqlSchema,
+    },
+    // Hidden from every query unless explicitly selected with "+testCases".
+    testCases: {
+        type: [testCaseSchema],
+        default: [],
+        select: false,
+    },
+    createdBy:{
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "user",
+        required: true,
+    }
+}, { timestamps: true });
+
+const Problem = mongoose.model('problem',problemSchema);
+
+module.exports = Problem;
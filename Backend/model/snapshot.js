@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+const workspaceFileSchema = new mongoose.Schema({
+    path: {
+        type: String,
+        required: true,
+    },
+    content: {
+        type: String,
+        default: "",
+    },
+}, { _id: false });
+
+// Kept out of the interview document itself: a workspace can be up to
+// LIMITS.maxCodeBytes, and an interview keeps up to hundreds of snapshots.
+const snapshotSchema = new mongoose.Schema({
+    interview: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "interview",
+        required: true,
+        index: true,
+    },
+    files: {
+        type: [workspaceFileSchema],
+        required: true,
+    },
+    entryFile: {
+        type: String,
+        required: true,
+    },
+    language: {
+        type: String,
+        required: true,
+    },
+    trigger: {
+        type: String,
+        enum: ["auto","manual"],
+        default: "manual",
+    },
+    label: {
+        type: String,
+        maxlength: 200,
+    },
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "user",
+    },
+    createdByName: {
+        type: String,
+    },
+}, { timestamps: true });
+
+const Snapshot = mongoose.model('snapshot',snapshotSchema);
+
+module.exports = Snapshot;
@@ -0,0 +1,9 @@
+const express = require('express')
+const router  = express.Router();
+const {executeCode , getSupportedLanguages} = require('../controllers/execution');
+const {checkForAuthenticationCookie} = require("../middlewares/authentication")
+
+router.get("/languages",getSupportedLanguages);
+router.post("/",checkForAuthenticationCookie("token"),executeCode);
+
+module.exports = router;
@@ -0,0 +1,8 @@
+const express = require('express')
+const router  = express.Router();
+const {getIceServerConfig} = require('../controllers/iceServers');
+const {checkForAuthenticationCookie , restrictTo} = require("../middlewares/authentication")
+
+router.get("/",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),getIceServerConfig);
+
+module.exports = router;
@@ -1,8 +1,9 @@
 const express = require('express')
 const router  = express.Router();
 const Interview = require("../model/interview");
-const {createInterview , getAllInterview} = require('../controllers/interview');
-const {checkForAuthenticationCookie} = require("../middlewares/authentication")
+const {createInterview , getAllInterview , attachProblems , getInterviewProblems , getInterviewParticipants , submitSolution , getSubmissions , getSnapshots , createSnapshot , getWhiteboardExports , createWhiteboardExport , getWhiteboardExportImage , getIntegrityEvents , createIntegrityEvents , getCallQualityReports , createCallQualityReports , getChatMessages} = require('../controllers/interview');
+const {checkForAuthenticationCookie , restrictTo} = require("../middlewares/authentication")
+const {requireRoomAdmission} = require("../middlewares/roomAdmission")
 
 router.get("/",checkForAuthenticationCookie("token"),getAllInterview);
 router.post("/",checkForAuthenticationCookie("token"),createInterview);
@@ -27,4 +28,20 @@ router.get("/complete/:meetingLink",async (req,res)=>{
     }
 });
 
+router.get("/:meetingLink/problems",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,getInterviewProblems);
+router.put("/:meetingLink/problems",checkForAuthenticationCookie("token"),restrictTo(["recruiter"]),attachProblems);
+router.get("/:meetingLink/participants",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,getInterviewParticipants);
+router.get("/:meetingLink/submissions",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,getSubmissions);
+router.post("/:meetingLink/submissions",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,submitSolution);
+router.get("/:meetingLink/snapshots",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,getSnapshots);
+router.post("/:meetingLink/snapshots",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,createSnapshot);
+router.get("/:meetingLink/whiteboard-exports",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,getWhiteboardExports);
+router.post("/:meetingLink/whiteboard-exports",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,express.raw({ type: "image/png", limit: "5mb" }),createWhiteboardExport);
+router.get("/:meetingLink/whiteboard-exports/:exportId/image",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,getWhiteboardExportImage);
+router.get("/:meetingLink/integrity-events",checkForAuthenticationCookie("token"),restrictTo(["recruiter"]),getIntegrityEvents);
+router.post("/:meetingLink/integrity-events",checkForAuthenticationCookie("token"),restrictTo(["candidate"]),requireRoomAdmission,createIntegrityEvents);
+router.get("/:meetingLink/call-quality",checkForAuthenticationCookie("token"),restrictTo(["recruiter"]),getCallQualityReports);
+router.post("/:meetingLink/call-quality",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,createCallQualityReports);
+router.get("/:meetingLink/chat-messages",checkForAuthenticationCookie("token"),restrictTo(["candidate","recruiter"]),requireRoomAdmission,getChatMessages);
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,14 @@
+const express = require('express')
+const router  = express.Router();
+const {createProblem , getAllProblems , getProblem , updateProblem , deleteProblem} = require('../controllers/problem');
+const {checkForAuthenticationCookie , restrictTo} = require("../middlewares/authentication")
+
+router.use(checkForAuthenticationCookie("token"), restrictTo(["recruiter"]));
+
+router.get("/",getAllProblems);
+router.post("/",createProblem);
+router.get("/:id",getProblem);
+router.put("/:id",updateProblem);
+router.delete("/:id",deleteProblem);
+
+module.exports = router;
@@ -13,6 +13,11 @@ function createTokenForUser(user){
     return token;
 }
 
+// Identifies the API to the signaling server; no user account has this role.
+function createTokenForService(){
+    return JWT.sign({ role: "service" },secret);
+}
+
 function validateToken(token){
     const payload = JWT.verify(token,secret);
     
@@ -21,5 +26,6 @@ function validateToken(token){
 
 module.exports = {
     createTokenForUser,
+    createTokenForService,
     validateToken
 };
\ No newline at end of file
@@ -0,0 +1,30 @@
+const encoding = require('lib0/encoding');
+const decoding = require('lib0/decoding');
+
+// Cursor labels come from the awareness state each client announces. The
+// server puts the sender's own name and role into every state it relays, so
+// nobody can label their cursor as someone else. Throws on a malformed update.
+function labelAwarenessUpdate(update, { name, role }){
+    const decoder = decoding.createDecoder(new Uint8Array(update));
+    const encoder = encoding.createEncoder();
+
+    const count = decoding.readVarUint(decoder);
+    encoding.writeVarUint(encoder, count);
+    for (let i = 0; i < count; i++) {
+        encoding.writeVarUint(encoder, decoding.readVarUint(decoder));
+        encoding.writeVarUint(encoder, decoding.readVarUint(decoder));
+
+        const state = JSON.parse(decoding.readVarString(decoder));
+        // A null state is a client leaving.
+        if(state !== null && typeof state === "object"){
+            const user = state.user !== null && typeof state.user === "object" ? state.user : {};
+            state.user = { ...user, name, role };
+        }
+        encoding.writeVarString(encoder, JSON.stringify(state));
+    }
+    return encoding.toUint8Array(encoder);
+}
+
+module.exports = {
+    labelAwarenessUpdate
+};
@@ -0,0 +1,124 @@
+// Who is in the video call of each room. Participants are keyed by a peer id
+// their client picks once per call, so a client that reconnects with a new
+// socket is still the same peer and its connections can be restarted rather
+// than rebuilt. Clients address offers, answers and ICE candidates to peer ids.
+const rosters = new Map();
+
+// How long a dropped participant keeps their place before the others give up on them.
+const RECONNECT_GRACE_MS = 30 * 1000;
+
+// What each participant is sending, so silence can be told apart from a mute.
+const MEDIA_STATE_KEYS = ["micOn", "cameraOn", "sharingScreen"];
+
+function toMediaState(state, fallback){
+    const media = {};
+    for (const key of MEDIA_STATE_KEYS) {
+        media[key] = typeof state?.[key] === "boolean" ? state[key] : fallback[key];
+    }
+    return media;
+}
+
+function toParticipant({ leaveTimer, userId, ...participant }){
+    return participant;
+}
+
+function findEntryBySocket(roomId, socketId){
+    for (const entry of (rosters.get(roomId) || new Map()).values()) {
+        if(entry.socketId === socketId) return entry;
+    }
+    return null;
+}
+
+function getPeerId(roomId, socketId){
+    const entry = findEntryBySocket(roomId, socketId);
+    return entry ? entry.peerId : null;
+}
+
+// Null while the peer is away and reconnecting.
+function getSocketId(roomId, peerId){
+    const entry = rosters.get(roomId)?.get(peerId);
+    return entry ? entry.socketId : null;
+}
+
+// Returns the participants who were already in the call, and whether this
+// was a dropped peer taking its place back.
+function joinCall(roomId, participant){
+    let roster = rosters.get(roomId);
+    if(!roster){
+        roster = new Map();
+        rosters.set(roomId, roster);
+    }
+
+    const existing = roster.get(participant.peerId);
+    // A peer id that is still connected elsewhere is not up for grabs, and a
+    // place kept for someone who dropped out is only theirs to take back.
+    if(existing && existing.socketId && existing.socketId !== participant.socketId){
+        throw new Error("Peer id already in use.");
+    }
+    if(existing && existing.userId !== String(participant.userId)){
+        throw new Error("Peer id belongs to someone else.");
+    }
+    if(existing && existing.leaveTimer){
+        clearTimeout(existing.leaveTimer);
+    }
+
+    const { media, ...identity } = participant;
+    const previous = existing ? toMediaState(existing, {}) : { micOn: true, cameraOn: true, sharingScreen: false };
+    roster.set(participant.peerId, {
+        ...identity,
+        ...toMediaState(media, previous),
+        leaveTimer: null
+    });
+    const others = Array.from(roster.values())
+        .filter((entry) => entry.peerId !== participant.peerId)
+        .map(toParticipant);
+    return { participant: toParticipant(roster.get(participant.peerId)), others, resumed: !!existing };
+}
+
+// Returns whether the peer was in the call.
+function leaveCall(roomId, peerId){
+    const roster = rosters.get(roomId);
+    const entry = roster?.get(peerId);
+    if(!entry) return false;
+
+    clearTimeout(entry.leaveTimer);
+    roster.delete(peerId);
+    if(roster.size === 0){
+        rosters.delete(roomId);
+    }
+    return true;
+}
+
+// Keeps the place of a participant whose socket dropped, and removes them
+// with onExpire(peerId) if they are not back in time.
+function holdCallPlace(roomId, socketId, onExpire){
+    const entry = findEntryBySocket(roomId, socketId);
+    if(!entry) return null;
+
+    entry.socketId = null;
+    entry.leaveTimer = setTimeout(() => {
+        if(leaveCall(roomId, entry.peerId)){
+            onExpire(entry.peerId);
+        }
+    }, RECONNECT_GRACE_MS);
+    return entry.peerId;
+}
+
+// Kept on the roster too, so someone joining later sees who is muted or
+// sharing. Returns the full media state, or null if the peer is not in the call.
+function setMediaState(roomId, peerId, state){
+    const entry = rosters.get(roomId)?.get(peerId);
+    if(!entry) return null;
+
+    Object.assign(entry, toMediaState(state, entry));
+    return toMediaState(entry, {});
+}
+
+module.exports = {
+    getPeerId,
+    getSocketId,
+    joinCall,
+    leaveCall,
+    holdCallPlace,
+    setMediaState
+};
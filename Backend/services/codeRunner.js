@@ -0,0 +1,363 @@
+const { spawn } = require('child_process');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const ts = require('typescript');
+const languagePacks = require('../../shared/languages.json');
+require("dotenv").config();
+
+const LIMITS = {
+    timeoutMs: Number(process.env.EXEC_TIMEOUT_MS) || 5000,
+    cpuSeconds: Number(process.env.EXEC_CPU_SECONDS) || 5,
+    memoryMb: Number(process.env.EXEC_MEMORY_MB) || 256,
+    compileTimeoutMs: Number(process.env.EXEC_COMPILE_TIMEOUT_MS) || 20000,
+    compileCpuSeconds: Number(process.env.EXEC_COMPILE_CPU_SECONDS) || 20,
+    compileAddressSpaceMb: Number(process.env.EXEC_COMPILE_MEMORY_MB) || 4096,
+    compileMaxFileMb: 256,
+    maxFileMb: 8,
+    maxOutputBytes: 64 * 1024,
+    maxCodeBytes: 100 * 1024,
+    maxFiles: 50,
+};
+
+const COMPILED_BINARY = './main';
+
+// Toolchain locations are the only host variables a sandboxed process gets to see.
+const TOOLCHAIN_ENV = ['GOROOT', 'JAVA_HOME', 'RUSTUP_HOME', 'CARGO_HOME'];
+
+// Where the workspace is mounted inside the jail.
+const JAIL_WORKDIR = '/sandbox';
+// The backend itself, .env included, is hidden from submitted code.
+const APP_DIR = path.resolve(__dirname, '..');
+// Jobs run as "nobody" unless told otherwise. Switching users needs root, so a
+// server started as an ordinary user keeps its own uid inside the jail.
+const SANDBOX_UID = process.env.EXEC_UID ? Number(process.env.EXEC_UID) : (process.getuid() === 0 ? 65534 : null);
+const SANDBOX_GID = process.env.EXEC_GID ? Number(process.env.EXEC_GID) : SANDBOX_UID;
+// EXEC_JAIL=off runs jobs straight on the host; only for local development.
+const USE_JAIL = process.env.EXEC_JAIL !== 'off';
+
+// bubblewrap gives every job fresh namespaces: no network, its own pids, a
+// read-only view of the host with private /tmp and /dev, and only the
+// workspace writable. --die-with-parent takes the job down with the group kill.
+function jailArgs(workDir){
+    return [
+        'bwrap',
+        '--unshare-all',
+        '--die-with-parent',
+        '--new-session',
+        '--ro-bind', '/', '/',
+        '--tmpfs', APP_DIR,
+        '--tmpfs', '/tmp',
+        '--proc', '/proc',
+        '--dev', '/dev',
+        '--bind', workDir, JAIL_WORKDIR,
+        '--chdir', JAIL_WORKDIR,
+    ];
+}
+
+// Every .ts file becomes a sibling .js file so relative imports between
+// workspace files keep resolving once compiled.
+function transpileTypeScript(files, entryFile){
+    const toJs = (filePath) => filePath.replace(/\.ts$/, '.js');
+
+    return {
+        files: files.map((file) => file.path.endsWith('.ts')
+            ? {
+                path: toJs(file.path),
+                content: ts.transpileModule(file.content, {
+                    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS },
+                    fileName: file.path,
+                }).outputText,
+            }
+            : file),
+        entryFile: toJs(entryFile),
+    };
+}
+
+// Source files a compiler is handed: everything with the extension, or only
+// the entry file's siblings where the language treats a directory as a package.
+function sourcesOf(files, { extension, entryDirectoryOnly }, entryFile){
+    const directory = path.posix.dirname(entryFile);
+    return files
+        .map((file) => file.path)
+        .filter((filePath) => filePath.endsWith(extension))
+        .filter((filePath) => !entryDirectoryOnly || path.posix.dirname(filePath) === directory)
+        .map((filePath) => `./${filePath}`);
+}
+
+// Classes live in the default package, so Main.java runs as "Main" and
+// com/acme/Main.java as "com.acme.Main".
+function javaClassName(entryFile){
+    return entryFile.replace(/^\.\//, '').replace(/\.java$/, '').split('/').join('.');
+}
+
+const TRANSFORMS = {
+    typescript: transpileTypeScript,
+};
+
+// Fills in the placeholders of a registry command. {sources} stands for any
+// number of arguments; "./" keeps an entry file named like "-c" from being
+// read as a flag.
+function expandCommand(argv, { execution, files, entryFile, memoryMb }){
+    return argv.flatMap((arg) => {
+        if(arg === '{sources}') return sourcesOf(files, execution.sources, entryFile);
+        return [arg
+            .replace('{memoryMb}', String(memoryMb))
+            .replace('{entryFile}', `./${entryFile}`)
+            .replace('{javaClass}', javaClassName(entryFile))
+            .replace('{binary}', COMPILED_BINARY)];
+    });
+}
+
+// Runtimes come from the language registry shared with the frontend. V8, the
+// JVM and the Go runtime reserve far more address space than they use, so
+// their packs ask for headroom on top of the memory limit, which the heap
+// flags in their commands enforce instead.
+const RUNTIMES = Object.fromEntries(languagePacks
+    .filter((pack) => pack.execution)
+    .map(({ id, execution }) => [id, {
+        transform: execution.transform && TRANSFORMS[execution.transform],
+        compile: execution.compile && ((files, entryFile) => expandCommand(execution.compile, { execution, files, entryFile })),
+        command: (memoryMb, entryFile) => expandCommand(execution.run, { execution, files: [], entryFile, memoryMb }),
+        addressSpaceMb: (memoryMb) => memoryMb + (execution.addressSpaceHeadroomMb || 0),
+    }]));
+
+const SUPPORTED_LANGUAGES = Object.keys(RUNTIMES);
+
+// Rejects anything that could escape the sandbox directory once joined onto it.
+function normalizeWorkspacePath(filePath){
+    if(typeof filePath !== 'string' || !filePath.trim()){
+        throw new Error('Every file needs a path.');
+    }
+
+    const normalized = path.posix.normalize(filePath.trim());
+    if(path.posix.isAbsolute(normalized) || normalized === '.' || normalized.startsWith('../') || normalized === '..'){
+        throw new Error(`Invalid file path: ${filePath}`);
+    }
+    return normalized;
+}
+
+function validateWorkspace(files, entryFile){
+    if(!Array.isArray(files) || files.length === 0){
+        throw new Error('No files to run.');
+    }
+    if(files.length > LIMITS.maxFiles){
+        throw new Error(`A workspace can hold at most ${LIMITS.maxFiles} files.`);
+    }
+
+    const normalizedFiles = files.map((file) => ({
+        path: normalizeWorkspacePath(file && file.path),
+        content: file && typeof file.content === 'string' ? file.content : '',
+    }));
+
+    // Written out as a tree, so no path may also be a folder of another.
+    const paths = new Set();
+    for (const file of normalizedFiles) {
+        if(paths.has(file.path)){
+            throw new Error(`More than one file has the path ${file.path}.`);
+        }
+        paths.add(file.path);
+    }
+    for (const file of normalizedFiles) {
+        for (let dir = path.posix.dirname(file.path); dir !== '.'; dir = path.posix.dirname(dir)) {
+            if(paths.has(dir)){
+                throw new Error(`${dir} cannot be both a file and a folder.`);
+            }
+        }
+    }
+
+    const totalBytes = normalizedFiles.reduce((sum, file) => sum + Buffer.byteLength(file.content), 0);
+    if(totalBytes > LIMITS.maxCodeBytes){
+        throw new Error('Code is too large.');
+    }
+
+    const normalizedEntry = normalizeWorkspacePath(entryFile);
+    if(!normalizedFiles.some((file) => file.path === normalizedEntry)){
+        throw new Error(`Entry file ${entryFile} is not part of the workspace.`);
+    }
+
+    return { files: normalizedFiles, entryFile: normalizedEntry };
+}
+
+function quote(arg){
+    return `'${String(arg).replace(/'/g, `'\\''`)}'`;
+}
+
+// Appends a chunk to a capped buffer, returning whether the cap was hit.
+function appendCapped(target, chunk){
+    const remaining = LIMITS.maxOutputBytes - target.size;
+    if(remaining <= 0) return true;
+
+    const slice = chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
+    target.chunks.push(slice);
+    target.size += slice.length;
+    return chunk.length > remaining;
+}
+
+function runInSandbox(workDir, argv, {
+    stdin,
+    addressSpaceMb,
+    timeoutMs = LIMITS.timeoutMs,
+    cpuSeconds = LIMITS.cpuSeconds,
+    maxFileMb = LIMITS.maxFileMb,
+}){
+    // The shell applies the rlimits to itself and then execs the runtime, so the
+    // limits are inherited by the submitted program and anything it spawns.
+    const script = [
+        `ulimit -t ${cpuSeconds}`,
+        `ulimit -v ${addressSpaceMb * 1024}`,
+        `ulimit -f ${maxFileMb * 1024}`,
+        `exec ${argv.map(quote).join(' ')}`,
+    ].join('; ');
+
+    const spawnOptions = {
+        cwd: workDir,
+        // GOCACHE and friends default to paths under HOME, which keeps them inside the sandbox.
+        env: {
+            PATH: process.env.PATH,
+            HOME: USE_JAIL ? JAIL_WORKDIR : workDir,
+            LANG: 'C.UTF-8',
+            ...Object.fromEntries(TOOLCHAIN_ENV.filter((name) => process.env[name]).map((name) => [name, process.env[name]])),
+        },
+        detached: true,
+        stdio: ['pipe', 'pipe', 'pipe'],
+    };
+    if(SANDBOX_UID !== null) spawnOptions.uid = SANDBOX_UID;
+    if(SANDBOX_GID !== null) spawnOptions.gid = SANDBOX_GID;
+
+    return new Promise((resolve, reject) => {
+        const startedAt = Date.now();
+        const stdout = { chunks: [], size: 0 };
+        const stderr = { chunks: [], size: 0 };
+        let timedOut = false;
+        let truncated = false;
+
+        const shell = ['/bin/sh', '-c', script];
+        const [command, ...args] = USE_JAIL ? [...jailArgs(workDir), ...shell] : shell;
+        const child = spawn(command, args, spawnOptions);
+
+        const killGroup = () => {
+            try {
+                process.kill(-child.pid, 'SIGKILL');
+            } catch (error) {}
+        };
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            killGroup();
+        }, timeoutMs);
+
+        child.stdout.on('data', (chunk) => {
+            if(appendCapped(stdout, chunk)){
+                truncated = true;
+                killGroup();
+            }
+        });
+        child.stderr.on('data', (chunk) => {
+            if(appendCapped(stderr, chunk)){
+                truncated = true;
+                killGroup();
+            }
+        });
+
+        child.on('error', (error) => {
+            clearTimeout(timer);
+            reject(error);
+        });
+
+        child.on('close', (exitCode, signal) => {
+            clearTimeout(timer);
+            resolve({
+                stdout: Buffer.concat(stdout.chunks).toString('utf8'),
+                stderr: Buffer.concat(stderr.chunks).toString('utf8'),
+                exitCode,
+                signal,
+                timedOut,
+                truncated,
+                durationMs: Date.now() - startedAt,
+            });
+        });
+
+        // The program may exit without reading its input; that is not an error.
+        child.stdin.on('error', () => {});
+        child.stdin.end(stdin || '');
+    });
+}
+
+async function chownTree(dir, uid, gid){
+    await fs.chown(dir, uid, gid);
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const target = path.join(dir, entry.name);
+        if(entry.isDirectory()){
+            await chownTree(target, uid, gid);
+        } else {
+            await fs.chown(target, uid, gid);
+        }
+    }
+}
+
+// Runs the workspace once per input, compiling it only once up front. A failed
+// compile yields a single result flagged with compileFailed.
+async function runCodeBatch({ language, files, entryFile, inputs }){
+    const runtime = RUNTIMES[language];
+    if(!runtime){
+        throw new Error(`Unsupported language: ${language}`);
+    }
+
+    let workspace = validateWorkspace(files, entryFile);
+    if(runtime.transform){
+        try {
+            workspace = runtime.transform(workspace.files, workspace.entryFile);
+        } catch (error) {
+            return [{ stdout: '', stderr: error.message, exitCode: 1, signal: null, timedOut: false, truncated: false, durationMs: 0, compileFailed: true }];
+        }
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'virtualhire-run-'));
+    try {
+        for (const file of workspace.files) {
+            const target = path.join(workDir, file.path);
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await fs.writeFile(target, file.content);
+        }
+        if(SANDBOX_UID !== null){
+            await chownTree(workDir, SANDBOX_UID, SANDBOX_GID);
+        }
+
+        if(runtime.compile){
+            const compiled = await runInSandbox(workDir, runtime.compile(workspace.files, workspace.entryFile), {
+                addressSpaceMb: LIMITS.compileAddressSpaceMb,
+                timeoutMs: LIMITS.compileTimeoutMs,
+                cpuSeconds: LIMITS.compileCpuSeconds,
+                maxFileMb: LIMITS.compileMaxFileMb,
+            });
+            if(compiled.exitCode !== 0 || compiled.timedOut){
+                return [{ ...compiled, compileFailed: true }];
+            }
+        }
+
+        const results = [];
+        for (const stdin of inputs) {
+            results.push(await runInSandbox(workDir, runtime.command(LIMITS.memoryMb, workspace.entryFile), {
+                stdin,
+                addressSpaceMb: runtime.addressSpaceMb(LIMITS.memoryMb),
+            }));
+        }
+        return results;
+    } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+    }
+}
+
+async function runCode({ language, files, entryFile, stdin }){
+    const [result] = await runCodeBatch({ language, files, entryFile, inputs: [stdin] });
+    return result;
+}
+
+module.exports = {
+    runCode,
+    runCodeBatch,
+    validateWorkspace,
+    SUPPORTED_LANGUAGES,
+    LIMITS,
+};
@@ -0,0 +1,45 @@
+const { runCodeBatch } = require('./codeRunner');
+
+// Trailing whitespace and line-ending differences are not treated as failures.
+function normalizeOutput(output){
+    return String(output)
+        .replace(/\r\n/g, "\n")
+        .split("\n")
+        .map((line) => line.trimEnd())
+        .join("\n")
+        .trim();
+}
+
+async function gradeSubmission({ testCases, language, files, entryFile }){
+    // Test cases run one at a time so a submission never holds more than one sandbox,
+    // and compiled languages are only built once for all of them.
+    const runs = await runCodeBatch({ language, files, entryFile, inputs: testCases.map((testCase) => testCase.input) });
+
+    // A compile error fails every test case the same way.
+    const results = testCases.map((testCase, index) => {
+        const run = runs[0].compileFailed ? runs[0] : runs[index];
+        const passed = !run.compileFailed && !run.timedOut && run.exitCode === 0
+            && normalizeOutput(run.stdout) === normalizeOutput(testCase.expectedOutput);
+
+        return {
+            passed,
+            timedOut: run.timedOut,
+            exitCode: run.exitCode,
+            durationMs: run.durationMs,
+        };
+    });
+
+    const passedCount = results.filter((result) => result.passed).length;
+
+    return {
+        results,
+        passedCount,
+        totalCount: results.length,
+        status: results.length > 0 && passedCount === results.length ? "Passed" : "Failed",
+    };
+}
+
+module.exports = {
+    gradeSubmission,
+    normalizeOutput
+};
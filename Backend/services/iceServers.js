@@ -0,0 +1,42 @@
+const { createHmac } = require('crypto');
+require("dotenv").config();
+
+// Comma-separated URL lists. STUN_URLS set to an empty string turns the public
+// default off, e.g. for deployments without internet access.
+function splitUrls(value){
+    return (value || "").split(",").map((url) => url.trim()).filter(Boolean);
+}
+
+const ICE_SETTINGS = {
+    stunUrls: splitUrls(process.env.STUN_URLS ?? "stun:stun.l.google.com:19302"),
+    turnUrls: splitUrls(process.env.TURN_URLS),
+    // The static-auth-secret of a coturn server running with use-auth-secret.
+    turnSecret: process.env.TURN_SECRET,
+    turnTtlSeconds: Number(process.env.TURN_TTL_SECONDS) || 24 * 60 * 60,
+};
+
+// TURN REST API credentials: the username carries the expiry time, and the
+// password is an HMAC of it under the secret shared with the TURN server,
+// which can check both without a call back to this app.
+function createTurnCredentials(userId, now = Date.now()){
+    const expiresAt = Math.floor(now / 1000) + ICE_SETTINGS.turnTtlSeconds;
+    const username = `${expiresAt}:${userId}`;
+    const credential = createHmac("sha1", ICE_SETTINGS.turnSecret).update(username).digest("base64");
+    return { username, credential };
+}
+
+function getIceServers(userId){
+    const iceServers = [];
+    if(ICE_SETTINGS.stunUrls.length > 0){
+        iceServers.push({ urls: ICE_SETTINGS.stunUrls });
+    }
+    if(ICE_SETTINGS.turnUrls.length > 0 && ICE_SETTINGS.turnSecret){
+        iceServers.push({ urls: ICE_SETTINGS.turnUrls, ...createTurnCredentials(userId) });
+    }
+
+    return { iceServers, ttlSeconds: ICE_SETTINGS.turnTtlSeconds };
+}
+
+module.exports = {
+    getIceServers
+};
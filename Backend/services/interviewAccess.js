@@ -0,0 +1,26 @@
+// Panelists interview alongside the lead interviewer, so they count as hosts too.
+function isInterviewHost(interview, user){
+    if(!interview || !user) return false;
+
+    return String(interview.scheduledBy) === String(user.id)
+        || interview.interviewer === user.email
+        || (interview.panelists || []).includes(user.email);
+}
+
+function isInterviewCandidate(interview, user){
+    if(!interview || !user) return false;
+
+    return interview.candidate === user.email;
+}
+
+function isInterviewParticipant(interview, user){
+    if(!interview || !user) return false;
+
+    return isInterviewHost(interview, user) || isInterviewCandidate(interview, user);
+}
+
+module.exports = {
+    isInterviewHost,
+    isInterviewCandidate,
+    isInterviewParticipant
+};
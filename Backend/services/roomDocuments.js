@@ -0,0 +1,147 @@
+const Y = require('yjs');
+
+const DEFAULT_CODE = "// Start coding...";
+const DEFAULT_ENTRY_FILE = "main.js";
+
+// Empty rooms keep their document for a while so a reload or a late rejoin
+// still finds the code where it was left.
+const IDLE_ROOM_TTL_MS = 30 * 60 * 1000;
+
+// "locked" makes the code read-only for everyone but the recruiter, "frozen" for everyone.
+const EDITOR_MODES = ["open", "locked", "frozen"];
+// Top-level parts of the document that hold the code; the whiteboard stays editable.
+const EDITOR_ROOTS = ["files", "meta"];
+
+const rooms = new Map();
+
+function createRoomDocument(){
+    const doc = new Y.Doc();
+    // Authored by a fixed client id so the seed is identical on every server start.
+    doc.clientID = 0;
+    doc.getMap("files").set(DEFAULT_ENTRY_FILE, new Y.Text(DEFAULT_CODE));
+    doc.getMap("meta").set("entryFile", DEFAULT_ENTRY_FILE);
+    return doc;
+}
+
+function getRoomDocument(roomId){
+    let room = rooms.get(roomId);
+    if(!room){
+        room = { doc: createRoomDocument(), idleTimer: null, editorControl: { mode: "open", changedBy: null } };
+        rooms.set(roomId, room);
+    }
+
+    if(room.idleTimer){
+        clearTimeout(room.idleTimer);
+        room.idleTimer = null;
+    }
+
+    return room.doc;
+}
+
+function applyRoomUpdate(roomId, update){
+    const doc = getRoomDocument(roomId);
+    Y.applyUpdate(doc, new Uint8Array(update));
+}
+
+function getRoomSyncPayload(roomId, stateVector){
+    const doc = getRoomDocument(roomId);
+    return {
+        update: Y.encodeStateAsUpdate(doc, stateVector ? new Uint8Array(stateVector) : undefined),
+        stateVector: Y.encodeStateVector(doc),
+    };
+}
+
+function getEditorControl(roomId){
+    getRoomDocument(roomId);
+    return rooms.get(roomId).editorControl;
+}
+
+function setEditorControl(roomId, mode, changedBy){
+    if(!EDITOR_MODES.includes(mode)){
+        throw new Error(`Unknown editor mode: ${mode}`);
+    }
+    getRoomDocument(roomId);
+    rooms.get(roomId).editorControl = { mode, changedBy };
+    return rooms.get(roomId).editorControl;
+}
+
+function canEditCode(roomId, user){
+    const { mode } = getEditorControl(roomId);
+    return mode === "open" || (mode === "locked" && Boolean(user) && user.role === "recruiter");
+}
+
+// Finds out which top-level types an update writes to or deletes from by
+// reading its structs against the room document, without applying it. An
+// update whose place in the document cannot be worked out, e.g. one building
+// on edits the server has not seen, counts as touching the code.
+function updateTouchesCode(roomId, update){
+    const doc = getRoomDocument(roomId);
+    const { structs, ds } = Y.decodeUpdate(new Uint8Array(update));
+
+    const structAt = (id) => {
+        const pending = structs.find((struct) => struct.id.client === id.client
+            && id.clock >= struct.id.clock && id.clock < struct.id.clock + struct.length);
+        if(pending) return pending;
+        try {
+            return Y.getItem(doc.store, id);
+        } catch (error) {
+            return null;
+        }
+    };
+
+    // Items in the document know their parent type; new ones only name the
+    // root, the item holding their parent, or a neighbour with the same parent.
+    const rootKeyOf = (item, seen = new Set()) => {
+        if(item.parent instanceof Y.AbstractType){
+            let type = item.parent;
+            while (type._item) type = type._item.parent;
+            return Y.findRootTypeKey(type);
+        }
+        if(typeof item.parent === "string") return item.parent;
+        if(seen.has(item)) return null;
+        seen.add(item);
+
+        const next = structAt(item.parent || item.origin || item.rightOrigin);
+        return next instanceof Y.Item ? rootKeyOf(next, seen) : null;
+    };
+    const touchesCode = (item) => {
+        const key = rootKeyOf(item);
+        return key === null || EDITOR_ROOTS.includes(key);
+    };
+
+    // Skips and garbage-collected content carry no edits of their own.
+    if(structs.some((struct) => struct instanceof Y.Item && touchesCode(struct))) return true;
+
+    for (const [client, deletes] of ds.clients) {
+        for (const { clock, len } of deletes) {
+            for (let current = clock; current < clock + len;) {
+                const struct = structAt(Y.createID(client, current));
+                if(!struct) return true;
+                if(struct instanceof Y.Item && touchesCode(struct)) return true;
+                current = struct.id.clock + struct.length;
+            }
+        }
+    }
+    return false;
+}
+
+function releaseRoomDocument(roomId){
+    const room = rooms.get(roomId);
+    if(!room || room.idleTimer) return;
+
+    room.idleTimer = setTimeout(() => {
+        room.doc.destroy();
+        rooms.delete(roomId);
+    }, IDLE_ROOM_TTL_MS);
+}
+
+module.exports = {
+    getRoomDocument,
+    applyRoomUpdate,
+    getRoomSyncPayload,
+    releaseRoomDocument,
+    getEditorControl,
+    setEditorControl,
+    canEditCode,
+    updateTouchesCode
+};
@@ -0,0 +1,41 @@
+const { io } = require('socket.io-client');
+const { createTokenForService } = require('./authentication');
+require("dotenv").config();
+
+// The API runs in its own process, so whatever it has to tell a room goes
+// through the signaling server on a socket of its own. Clients then hear it
+// from the server rather than from whichever participant made the request.
+const SIGNALING_URL = process.env.SIGNALING_URL || "http://localhost:8013";
+const ADMISSION_TIMEOUT_MS = 3000;
+
+const socket = io(SIGNALING_URL, { auth: { token: createTokenForService() } });
+
+socket.on("connect_error", (error) => {
+    console.log("Could not reach the signaling server:", error.message);
+});
+
+function emitToRoom(roomId, event, payload){
+    socket.emit("room-broadcast", { roomId, event, payload });
+}
+
+// Hosts only, e.g. for what is meant for the interviewers.
+function emitToHosts(roomId, event, payload){
+    socket.emit("room-broadcast", { roomId, event, payload, hostsOnly: true });
+}
+
+// Whether a host has let the user into the room. Admissions live in the
+// signaling server's memory; when it cannot be asked, the answer is no.
+async function isAdmittedToRoom(roomId, userId){
+    try {
+        const { admitted } = await socket.timeout(ADMISSION_TIMEOUT_MS).emitWithAck("room-admission", { roomId, userId: String(userId) });
+        return admitted;
+    } catch (error) {
+        return false;
+    }
+}
+
+module.exports = {
+    emitToRoom,
+    emitToHosts,
+    isAdmittedToRoom
+};
@@ -0,0 +1,80 @@
+const path = require('path');
+const { Worker } = require('worker_threads');
+const { LIMITS } = require('./codeRunner');
+
+const SQL_WORKER = path.join(__dirname, 'sqlWorker.js');
+
+// Resolves with one { columns, rows, error } per query, or null when the
+// queries did not finish within the execution time limit.
+function runSqlQueries(fixture, queries){
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(SQL_WORKER, {
+            workerData: { fixture, queries },
+            resourceLimits: { maxOldGenerationSizeMb: LIMITS.memoryMb },
+        });
+
+        const timer = setTimeout(() => {
+            worker.terminate();
+            resolve(null);
+        }, LIMITS.timeoutMs);
+
+        worker.once('message', (message) => {
+            clearTimeout(timer);
+            worker.terminate();
+            if(message.error){
+                reject(new Error(message.error));
+            } else {
+                resolve(message.results);
+            }
+        });
+        worker.once('error', (error) => {
+            clearTimeout(timer);
+            reject(error);
+        });
+    });
+}
+
+// Column names are ignored, so "SELECT name AS n" matches "SELECT name";
+// rows are compared as a multiset unless the problem says order matters.
+function sameResultSet(actual, expected, orderMatters){
+    if(actual.columns.length !== expected.columns.length || actual.rows.length !== expected.rows.length){
+        return false;
+    }
+
+    const serialize = (rows) => {
+        const serialized = rows.map((row) => JSON.stringify(row));
+        return orderMatters ? serialized : serialized.sort();
+    };
+    const actualRows = serialize(actual.rows);
+    const expectedRows = serialize(expected.rows);
+    return actualRows.every((row, index) => row === expectedRows[index]);
+}
+
+async function gradeSqlSubmission({ sql, query }){
+    const startedAt = Date.now();
+    const results = await runSqlQueries(sql.fixture, [query, sql.expectedQuery]);
+    const durationMs = Date.now() - startedAt;
+
+    if(results && results[1].error){
+        throw new Error(`Reference query failed: ${results[1].error}`);
+    }
+
+    const passed = Boolean(results) && !results[0].error && sameResultSet(results[0], results[1], sql.orderMatters);
+
+    return {
+        results: [{
+            passed,
+            timedOut: !results,
+            exitCode: results && !results[0].error ? 0 : 1,
+            durationMs,
+        }],
+        passedCount: passed ? 1 : 0,
+        totalCount: 1,
+        status: passed ? "Passed" : "Failed",
+    };
+}
+
+module.exports = {
+    gradeSqlSubmission,
+    runSqlQueries
+};
@@ -0,0 +1,27 @@
+const { parentPort, workerData } = require('worker_threads');
+const initSqlJs = require('sql.js');
+
+// Runs in its own thread so a runaway query can be terminated without
+// blocking the server's event loop.
+async function run({ fixture, queries }){
+    const SQL = await initSqlJs();
+
+    return queries.map((query) => {
+        // Every query gets a freshly seeded database so one cannot affect another.
+        const db = new SQL.Database();
+        try {
+            db.exec(fixture);
+            const results = db.exec(query);
+            const last = results[results.length - 1] || { columns: [], values: [] };
+            return { columns: last.columns, rows: last.values, error: null };
+        } catch (error) {
+            return { columns: [], rows: [], error: error.message };
+        } finally {
+            db.close();
+        }
+    });
+}
+
+run(workerData)
+    .then((results) => parentPort.postMessage({ results }))
+    .catch((error) => parentPort.postMessage({ error: error.message }));
@@ -0,0 +1,141 @@
+// Candidates who arrive before the interviewer is ready wait in a lobby until
+// a host lets them in. Admission is kept per user rather than per socket, so a
+// page reload or a dropped connection does not send anyone back to the lobby.
+const lobbies = new Map();
+
+// An empty room keeps its admissions for as long as it keeps its document, so
+// someone admitted who drops out while alone is let straight back in.
+const IDLE_LOBBY_TTL_MS = 30 * 60 * 1000;
+
+function keepLobby(lobby){
+    if(lobby.idleTimer){
+        clearTimeout(lobby.idleTimer);
+        lobby.idleTimer = null;
+    }
+}
+
+function getLobby(roomId){
+    let lobby = lobbies.get(roomId);
+    if(!lobby){
+        lobby = { waiting: new Map(), admitted: new Set(), locked: false, idleTimer: null };
+        lobbies.set(roomId, lobby);
+    }
+    keepLobby(lobby);
+    return lobby;
+}
+
+function toWaitingEntry({ socketIds, ...entry }){
+    return entry;
+}
+
+function isAdmitted(roomId, userId){
+    return !!lobbies.get(roomId)?.admitted.has(String(userId));
+}
+
+// A user may wait from several tabs; they all get in or turned away together.
+function waitForAdmission(roomId, user, socketId){
+    const lobby = getLobby(roomId);
+    const userId = String(user.id);
+
+    let entry = lobby.waiting.get(userId);
+    if(!entry){
+        entry = { userId, name: user.name, email: user.email, since: new Date(), socketIds: new Set() };
+        lobby.waiting.set(userId, entry);
+    }
+    entry.socketIds.add(socketId);
+}
+
+// Returns the sockets that were waiting for the user.
+function admit(roomId, userId){
+    const lobby = getLobby(roomId);
+    const entry = lobby.waiting.get(String(userId));
+    lobby.waiting.delete(String(userId));
+    lobby.admitted.add(String(userId));
+    return entry ? Array.from(entry.socketIds) : [];
+}
+
+// Returns the sockets that were waiting for the user.
+function deny(roomId, userId){
+    const lobby = lobbies.get(roomId);
+    const entry = lobby?.waiting.get(String(userId));
+    if(!entry) return [];
+
+    lobby.waiting.delete(String(userId));
+    return Array.from(entry.socketIds);
+}
+
+// Returns whether the waiting list changed.
+function leaveWaitingRoom(roomId, socketId){
+    const lobby = lobbies.get(roomId);
+    if(!lobby) return false;
+
+    for (const entry of lobby.waiting.values()) {
+        if(entry.socketIds.delete(socketId)){
+            if(entry.socketIds.size === 0){
+                lobby.waiting.delete(entry.userId);
+                return true;
+            }
+            return false;
+        }
+    }
+    return false;
+}
+
+// Sends someone removed by a host back through the lobby if they try again.
+function revokeAdmission(roomId, userId){
+    lobbies.get(roomId)?.admitted.delete(String(userId));
+}
+
+function isLocked(roomId){
+    return !!lobbies.get(roomId)?.locked;
+}
+
+// A locked room turns away anyone not admitted yet, including those already
+// waiting, whose sockets are returned. Admitted people can still come back
+// after a dropped connection.
+function setLocked(roomId, locked){
+    const lobby = getLobby(roomId);
+    lobby.locked = locked;
+    if(!locked) return [];
+
+    const socketIds = Array.from(lobby.waiting.values()).flatMap((entry) => Array.from(entry.socketIds));
+    lobby.waiting.clear();
+    return socketIds;
+}
+
+// Called when someone enters the room, so a lobby in use is not dropped.
+function holdLobby(roomId){
+    const lobby = lobbies.get(roomId);
+    if(lobby) keepLobby(lobby);
+}
+
+// Called once nobody is left in the room. Admissions end a while later, the
+// same way the room's document is dropped; a lobby with people waiting is kept.
+function releaseLobby(roomId){
+    const lobby = lobbies.get(roomId);
+    if(!lobby || lobby.idleTimer || lobby.waiting.size > 0) return;
+
+    lobby.idleTimer = setTimeout(() => {
+        if(lobbies.get(roomId) === lobby && lobby.waiting.size === 0){
+            lobbies.delete(roomId);
+        }
+    }, IDLE_LOBBY_TTL_MS);
+}
+
+function getWaitingList(roomId){
+    return Array.from(lobbies.get(roomId)?.waiting.values() || []).map(toWaitingEntry);
+}
+
+module.exports = {
+    isAdmitted,
+    waitForAdmission,
+    admit,
+    deny,
+    leaveWaitingRoom,
+    revokeAdmission,
+    isLocked,
+    setLocked,
+    holdLobby,
+    releaseLobby,
+    getWaitingList
+};
@@ -1,7 +1,46 @@
 const express = require('express');
 const http = require('http');
+const mongoose = require('mongoose');
 const cors = require('cors');
 const { Server } = require('socket.io');
+const {
+    applyRoomUpdate,
+    getRoomSyncPayload,
+    releaseRoomDocument,
+    getEditorControl,
+    setEditorControl,
+    canEditCode,
+    updateTouchesCode
+} = require('./services/roomDocuments');
+const {
+    getPeerId,
+    getSocketId,
+    joinCall,
+    leaveCall,
+    holdCallPlace,
+    setMediaState
+} = require('./services/callRoster');
+const { validateToken } = require('./services/authentication');
+const { labelAwarenessUpdate } = require('./services/awareness');
+const {
+    isAdmitted,
+    waitForAdmission,
+    admit,
+    deny,
+    leaveWaitingRoom,
+    revokeAdmission,
+    isLocked,
+    setLocked,
+    holdLobby,
+    releaseLobby,
+    getWaitingList
+} = require('./services/waitingRoom');
+const { isInterviewHost, isInterviewParticipant } = require('./services/interviewAccess');
+const Interview = require('./model/interview');
+const Snapshot = require('./model/snapshot');
+
+mongoose.connect("mongodb://127.0.0.1:27017/interview").then(()=>console.log("Mongodb Connected.."))
+                                                            .catch(err => console.log("MongoDB Connection error.."));
 
 const app = express();
 
@@ -19,37 +58,446 @@ const io = new Server(server, {
     },
 });
 
+// Every socket carries the login token in its handshake, so the server knows
+// who is on the other end instead of trusting what the client claims.
+io.use((socket, next) => {
+    const { token } = socket.handshake.auth || {};
+    if(!token){
+        return next(new Error("Authentication required."));
+    }
+
+    try {
+        socket.data.user = validateToken(token);
+        socket.data.service = socket.data.user.role === "service";
+        socket.data.roomAccess = new Map();
+        socket.data.waitingIn = new Set();
+        socket.data.pendingCallJoins = new Map();
+        return next();
+    } catch (error) {
+        return next(new Error("Invalid token."));
+    }
+});
+
+// Room ids are meeting links; only the candidate, the interviewers and the
+// scheduler of that interview may join. Returns null for anyone else, and
+// whether the user hosts the interview otherwise. The answer is remembered per
+// socket, so joining the call after the room does not query again.
+async function getRoomAccess(socket, roomId){
+    if(socket.data.roomAccess.has(roomId)) return socket.data.roomAccess.get(roomId);
+
+    try {
+        const interview = await Interview.findOne({ meetingLink: roomId });
+        if(!isInterviewParticipant(interview, socket.data.user)) return null;
+
+        const access = { host: isInterviewHost(interview, socket.data.user) };
+        socket.data.roomAccess.set(roomId, access);
+        return access;
+    } catch (error) {
+        console.log(`Could not authorize ${socket.id} for ${roomId}:`, error.message);
+        return null;
+    }
+}
+
+function denyRoom(socket, roomId, message){
+    socket.emit("room-denied", { roomId, message });
+}
+
+const MAX_CHAT_MESSAGES = 2000;
+const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+// Hosts also sit in a room of their own, which is where the waiting list goes.
+const hostsOf = (roomId) => `${roomId}:hosts`;
+
+function emitWaitingList(roomId){
+    io.to(hostsOf(roomId)).emit("waiting-room-list", { waiting: getWaitingList(roomId) });
+}
+
+// Everything in the room is relayed to its members only, so sockets that are
+// still waiting hear none of the code, the call or the editor.
+function enterRoom(socket, roomId){
+    socket.join(roomId);
+    holdLobby(roomId);
+    console.log(`User ${socket.id} joined room ${roomId}`);
+    socket.to(roomId).emit("user-connected", socket.id);
+    socket.emit("room-joined", { roomId });
+    socket.emit("editor-control", getEditorControl(roomId));
+    socket.emit("room-lock", { locked: isLocked(roomId) });
+
+    if(socket.data.roomAccess.get(roomId).host){
+        socket.join(hostsOf(roomId));
+        socket.emit("waiting-room-list", { waiting: getWaitingList(roomId) });
+    }
+
+    // A call join that arrived before the room join finished goes through now.
+    const pending = socket.data.pendingCallJoins.get(roomId);
+    if(pending){
+        socket.data.pendingCallJoins.delete(roomId);
+        enterCall(socket, roomId, pending);
+    }
+}
+
+// Joining the call hands back everyone already in it; the newcomer then
+// connects to each of them, so nobody has to guess when to send an offer.
+// A client back from a dropped connection joins again with the same peer id.
+function enterCall(socket, roomId, { peerId, media }){
+    let joined;
+    try {
+        joined = joinCall(roomId, {
+            peerId,
+            socketId: socket.id,
+            // Only the same user may take a dropped peer's place back.
+            userId: String(socket.data.user.id),
+            name: socket.data.user.name,
+            role: socket.data.user.role,
+            // Lets clients match the participant to the interview record.
+            email: socket.data.user.email,
+            media,
+        });
+    } catch (error) {
+        console.log(`Rejected call join in ${roomId} from ${socket.id}:`, error.message);
+        return;
+    }
+
+    socket.emit("call-roster", { participants: joined.others, resumed: joined.resumed });
+    socket.to(roomId).emit("call-peer-joined", { participant: joined.participant, resumed: joined.resumed });
+}
+
+// Host controls act on a participant of the call, found by peer id.
+function findCallMember(roomId, peerId){
+    const socketId = getSocketId(roomId, peerId);
+    return socketId ? io.sockets.sockets.get(socketId) : null;
+}
+
 io.on("connection", (socket) => {
     console.log("A user Connected:", socket.id);
 
-    socket.on("join", (roomId) => {
-        socket.join(roomId);
-        console.log(`User ${socket.id} joined room ${roomId}`);
-        socket.to(roomId).emit("user-connected", socket.id);
+    // Joining takes a database lookup and, for candidates, a host's say-so,
+    // so clients wait for "room-joined" before sending anything that needs
+    // them to be in the room.
+    socket.on("join", async (roomId) => {
+        const access = await getRoomAccess(socket, roomId);
+        if(!access){
+            denyRoom(socket, roomId, "You are not a participant of this interview.");
+            return;
+        }
+
+        if(access.host || isAdmitted(roomId, socket.data.user.id)){
+            enterRoom(socket, roomId);
+            return;
+        }
+        if(isLocked(roomId)){
+            denyRoom(socket, roomId, "The interviewer has locked the room.");
+            return;
+        }
+
+        waitForAdmission(roomId, socket.data.user, socket.id);
+        socket.data.waitingIn.add(roomId);
+        socket.emit("waiting-room-entered", { roomId });
+        emitWaitingList(roomId);
+    });
+
+    socket.on("waiting-room-admit", ({ roomId, userId }) => {
+        if(!socket.rooms.has(hostsOf(roomId))) return;
+
+        for (const waitingSocketId of admit(roomId, userId)) {
+            const waitingSocket = io.sockets.sockets.get(waitingSocketId);
+            if(!waitingSocket) continue;
+
+            waitingSocket.data.waitingIn.delete(roomId);
+            enterRoom(waitingSocket, roomId);
+        }
+        emitWaitingList(roomId);
+    });
+
+    socket.on("waiting-room-deny", ({ roomId, userId }) => {
+        if(!socket.rooms.has(hostsOf(roomId))) return;
+
+        for (const waitingSocketId of deny(roomId, userId)) {
+            const waitingSocket = io.sockets.sockets.get(waitingSocketId);
+            if(!waitingSocket) continue;
+
+            waitingSocket.data.waitingIn.delete(roomId);
+            denyRoom(waitingSocket, roomId, "The interviewer did not let you in.");
+        }
+        emitWaitingList(roomId);
+    });
+
+    socket.on("editor-control", ({ roomId, mode }) => {
+        if(!socket.rooms.has(roomId) || socket.data.user.role !== "recruiter") return;
+
+        try {
+            io.to(roomId).emit("editor-control", setEditorControl(roomId, mode, socket.data.user.name));
+        } catch (error) {
+            console.log(`Rejected editor mode in ${roomId} from ${socket.id}:`, error.message);
+        }
+    });
+
+    // Editor state is a Yjs document; the server keeps its own copy per room
+    // so late joiners and reloads start from the current code and language.
+    socket.on("yjs-update", ({ roomId, update }) => {
+        if(!socket.rooms.has(roomId)) return;
+
+        // A client that edited code it may not touch, or sent an update that
+        // does not decode, has diverged from the room, so it is told to throw
+        // its copy away and sync again.
+        try {
+            if(!canEditCode(roomId, socket.data.user) && updateTouchesCode(roomId, update)){
+                socket.emit("yjs-resync");
+                return;
+            }
+            applyRoomUpdate(roomId, update);
+        } catch (error) {
+            console.log(`Rejected editor update in ${roomId} from ${socket.id}:`, error.message);
+            socket.emit("yjs-resync");
+            return;
+        }
+        socket.to(roomId).emit("yjs-update", { update });
+    });
+
+    socket.on("awareness-update", ({ roomId, update }) => {
+        if(!socket.rooms.has(roomId)) return;
+
+        let labelled;
+        try {
+            labelled = labelAwarenessUpdate(update, socket.data.user);
+        } catch (error) {
+            console.log(`Rejected awareness update in ${roomId} from ${socket.id}:`, error.message);
+            return;
+        }
+        socket.to(roomId).emit("awareness-update", { update: labelled });
+    });
+
+    socket.on("yjs-sync-request", ({ roomId, stateVector }) => {
+        if(!socket.rooms.has(roomId)) return;
+
+        socket.emit("yjs-sync-response", getRoomSyncPayload(roomId, stateVector));
+        // Cursors are not stored on the server, so peers re-announce theirs.
+        socket.to(roomId).emit("awareness-query");
+    });
+
+    // Events the API produced itself, such as the output of a code run.
+    socket.on("room-broadcast", ({ roomId, event, payload, hostsOnly }) => {
+        if(!socket.data.service) return;
+        io.to(hostsOnly ? hostsOf(roomId) : roomId).emit(event, payload);
+    });
+
+    // Lets the API keep the room's data from anyone a host has not let in.
+    socket.on("room-admission", ({ roomId, userId }, ack) => {
+        if(!socket.data.service || typeof ack !== "function") return;
+        ack({ admitted: isAdmitted(roomId, userId) });
+    });
+
+    // Code runs are announced by the API. SQL runs in the browser, so only its
+    // runs are relayed, under the name of whoever is on this socket.
+    socket.on("execution-started", ({ roomId, language }) => {
+        if(!socket.rooms.has(roomId) || language !== "sql") return;
+        socket.to(roomId).emit("execution-started", { language, startedBy: socket.data.user.name });
+    });
+
+    socket.on("execution-result", ({ roomId, sqlResult }) => {
+        if(!socket.rooms.has(roomId) || !sqlResult) return;
+        socket.to(roomId).emit("execution-result", { sqlResult, startedBy: socket.data.user.name });
+    });
+
+    socket.on("preview-reload", ({ roomId }) => {
+        if(!socket.rooms.has(roomId)) return;
+        socket.to(roomId).emit("preview-reload");
+    });
+
+    socket.on("snapshots-changed", ({ roomId }) => {
+        if(!socket.rooms.has(roomId)) return;
+        socket.to(roomId).emit("snapshots-changed");
+    });
+
+    // Restoring is for hosts. The notice names whoever is on this socket and
+    // dates the snapshot from the stored copy, not from what the client says.
+    socket.on("snapshot-restored", async ({ roomId, snapshotId }) => {
+        if(!socket.rooms.has(hostsOf(roomId)) || !mongoose.isValidObjectId(snapshotId)) return;
+
+        try {
+            const interview = await Interview.findOne({ meetingLink: roomId }).select("_id");
+            const snapshot = interview && await Snapshot.findOne({ _id: snapshotId, interview: interview._id }).select("createdAt");
+            if(!snapshot) return;
+
+            socket.to(roomId).emit("snapshot-restored", {
+                restoredBy: socket.data.user.name,
+                snapshotCreatedAt: snapshot.createdAt
+            });
+        } catch (error) {
+            console.log(`Could not announce a snapshot restore in ${roomId}:`, error.message);
+        }
     });
 
-    socket.on("code-change",({ roomId,code})=>{
-        console.log(`Code update in ${roomId} from ${socket.id}`);
-        socket.to(roomId).emit("code-change", code);
+    // Messages are stored on the interview before they go out, under the name
+    // of whoever is on this socket, so what the room saw and the record agree.
+    // The sender gets its stored copy back through the acknowledgement.
+    socket.on("chat-message", async ({ roomId, text }, ack) => {
+        const reply = typeof ack === "function" ? ack : () => {};
+        if(!socket.rooms.has(roomId)){
+            reply({ error: "You are not in this room." });
+            return;
+        }
+
+        const body = typeof text === "string" ? text.trim() : "";
+        if(!body || body.length > MAX_CHAT_MESSAGE_LENGTH){
+            reply({ error: `Messages must be between 1 and ${MAX_CHAT_MESSAGE_LENGTH} characters.` });
+            return;
+        }
+
+        const { user } = socket.data;
+        const message = {
+            _id: new mongoose.Types.ObjectId(),
+            text: body,
+            author: user.id,
+            authorName: user.name,
+            authorEmail: user.email,
+            authorRole: user.role,
+            sentAt: new Date()
+        };
+
+        try {
+            await Interview.updateOne(
+                { meetingLink: roomId },
+                { $push: { chatMessages: { $each: [message], $slice: -MAX_CHAT_MESSAGES } } },
+                { runValidators: true }
+            );
+        } catch (error) {
+            console.log(`Could not store chat message in ${roomId}:`, error.message);
+            reply({ error: "Message not sent." });
+            return;
+        }
+
+        socket.to(roomId).emit("chat-message", { message });
+        reply({ message });
     });
 
     socket.on("subtitle", ({ roomId, text }) => {
+        if(!socket.rooms.has(roomId)) return;
         socket.to(roomId).emit("subtitle", text);
     });
     
-    socket.on("offer", (data) => {
-        console.log("Received offer from", socket.id, "for target", data.target);
-        socket.to(data.target).emit("offer", { sdp: data.sdp, caller: socket.id });
+    // After a reconnect the call join can overtake the room join, and a
+    // waiting candidate may ask before being admitted; either way it is held
+    // until the socket is in the room.
+    socket.on("call-join", async ({ roomId, peerId, media }) => {
+        if(!(await getRoomAccess(socket, roomId))){
+            denyRoom(socket, roomId, "You are not a participant of this interview.");
+            return;
+        }
+
+        if(!socket.rooms.has(roomId)){
+            socket.data.pendingCallJoins.set(roomId, { peerId, media });
+            return;
+        }
+        enterCall(socket, roomId, { peerId, media });
     });
 
-    socket.on("answer", (data) => {
-        console.log("Received answer from", socket.id, "for target", data.target);
-        socket.to(data.target).emit("answer", { sdp: data.sdp, caller: socket.id });
+    socket.on("call-leave", ({ roomId }) => {
+        socket.data.pendingCallJoins.delete(roomId);
+        const peerId = getPeerId(roomId, socket.id);
+        if(peerId && leaveCall(roomId, peerId)){
+            socket.to(roomId).emit("call-peer-left", { peerId });
+        }
     });
 
-    socket.on("ice-candidate", (data) => {
-        console.log("Received ICE candidate from", socket.id, "for target", data.target);
-        socket.to(data.target).emit("ice-candidate", { candidate: data.candidate, caller: socket.id });
+    // Mic, camera and screen share state, so the others can show it on the tile.
+    socket.on("call-media-state", ({ roomId, state }) => {
+        const peerId = getPeerId(roomId, socket.id);
+        const media = peerId && setMediaState(roomId, peerId, state);
+        if(!media) return;
+        socket.to(roomId).emit("call-media-state", { peerId, state: media });
+    });
+
+    // Host controls. Only hosts may use them, and nobody can remove a host.
+    socket.on("host-ask-unmute", ({ roomId, peerId }) => {
+        const target = socket.rooms.has(hostsOf(roomId)) && findCallMember(roomId, peerId);
+        if(!target) return;
+        target.emit("host-ask-unmute", { by: socket.data.user.name });
+    });
+
+    // Muting is done by the participant's own client; the server cannot
+    // silence a peer-to-peer stream.
+    socket.on("host-mute", ({ roomId, peerId }) => {
+        const target = socket.rooms.has(hostsOf(roomId)) && findCallMember(roomId, peerId);
+        if(!target) return;
+        target.emit("host-mute", { by: socket.data.user.name });
+    });
+
+    // Takes every socket of that user out of the room, and they would have to
+    // be admitted again to come back.
+    socket.on("host-remove", ({ roomId, peerId }) => {
+        const target = socket.rooms.has(hostsOf(roomId)) && findCallMember(roomId, peerId);
+        if(!target || target.data.roomAccess.get(roomId)?.host) return;
+
+        const userId = String(target.data.user.id);
+        revokeAdmission(roomId, userId);
+        for (const memberId of io.sockets.adapter.rooms.get(roomId) || []) {
+            const member = io.sockets.sockets.get(memberId);
+            if(!member || String(member.data.user.id) !== userId) continue;
+
+            const memberPeerId = getPeerId(roomId, member.id);
+            if(memberPeerId && leaveCall(roomId, memberPeerId)){
+                io.to(roomId).emit("call-peer-left", { peerId: memberPeerId });
+            }
+            member.leave(roomId);
+            denyRoom(member, roomId, `${socket.data.user.name} removed you from the interview.`);
+        }
+    });
+
+    socket.on("room-lock", ({ roomId, locked }) => {
+        if(!socket.rooms.has(hostsOf(roomId))) return;
+
+        for (const waitingSocketId of setLocked(roomId, !!locked)) {
+            const waitingSocket = io.sockets.sockets.get(waitingSocketId);
+            if(!waitingSocket) continue;
+
+            waitingSocket.data.waitingIn.delete(roomId);
+            denyRoom(waitingSocket, roomId, "The interviewer has locked the room.");
+        }
+        io.to(roomId).emit("room-lock", { locked: !!locked, by: socket.data.user.name });
+        emitWaitingList(roomId);
+    });
+
+    // Descriptions and candidates only travel between two members of the same
+    // call, and are dropped while the target is reconnecting.
+    socket.on("call-description", ({ roomId, target, description }) => {
+        const from = getPeerId(roomId, socket.id);
+        const targetSocketId = getSocketId(roomId, target);
+        if(!from || !targetSocketId) return;
+        io.to(targetSocketId).emit("call-description", { from, description });
+    });
+
+    socket.on("call-candidate", ({ roomId, target, candidate }) => {
+        const from = getPeerId(roomId, socket.id);
+        const targetSocketId = getSocketId(roomId, target);
+        if(!from || !targetSocketId) return;
+        io.to(targetSocketId).emit("call-candidate", { from, candidate });
+    });
+
+    socket.on("disconnecting", () => {
+        for (const roomId of socket.data.waitingIn) {
+            if(leaveWaitingRoom(roomId, socket.id)){
+                emitWaitingList(roomId);
+            }
+            if(!io.sockets.adapter.rooms.has(roomId)){
+                releaseLobby(roomId);
+            }
+        }
+
+        for (const roomId of socket.rooms) {
+            const peerId = holdCallPlace(roomId, socket.id, (expiredPeerId) => {
+                io.to(roomId).emit("call-peer-left", { peerId: expiredPeerId });
+            });
+            if(peerId){
+                socket.to(roomId).emit("call-peer-away", { peerId });
+            }
+
+            const room = io.sockets.adapter.rooms.get(roomId);
+            if(roomId !== socket.id && room && room.size === 1){
+                releaseRoomDocument(roomId);
+                releaseLobby(roomId);
+            }
+        }
     });
 
     socket.on("disconnect", () => {
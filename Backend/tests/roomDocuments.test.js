@@ -0,0 +1,47 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const Y = require('yjs');
+const {
+    getRoomDocument,
+    getRoomSyncPayload,
+    applyRoomUpdate,
+    updateTouchesCode
+} = require('../services/roomDocuments');
+
+// A client whose document starts from the room's current state.
+function joinRoom(roomId){
+    const doc = new Y.Doc();
+    Y.applyUpdate(doc, getRoomSyncPayload(roomId).update);
+    return doc;
+}
+
+function editOf(doc, edit){
+    const before = Y.encodeStateVector(doc);
+    edit(doc);
+    return Y.encodeStateAsUpdate(doc, before);
+}
+
+test("a whiteboard edit does not touch the code", () => {
+    const doc = joinRoom("whiteboard-room");
+    const update = editOf(doc, (d) => d.getMap("whiteboard").set("shape", { id: "shape" }));
+
+    assert.strictEqual(updateTouchesCode("whiteboard-room", update), false);
+});
+
+test("a code edit touches the code", () => {
+    const doc = joinRoom("code-room");
+    const update = editOf(doc, (d) => d.getMap("files").get("main.js").insert(0, "x"));
+
+    assert.strictEqual(updateTouchesCode("code-room", update), true);
+});
+
+test("a truncated update is rejected and leaves the room unchanged", () => {
+    const doc = joinRoom("truncated-room");
+    const update = editOf(doc, (d) => d.getMap("files").get("main.js").insert(0, "let answer = 42;\n"));
+    const truncated = update.slice(0, Math.floor(update.length / 2));
+    const before = getRoomDocument("truncated-room").getMap("files").get("main.js").toString();
+
+    assert.throws(() => updateTouchesCode("truncated-room", truncated));
+    assert.throws(() => applyRoomUpdate("truncated-room", truncated));
+    assert.strictEqual(getRoomDocument("truncated-room").getMap("files").get("main.js").toString(), before);
+});
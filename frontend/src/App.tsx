@@ -9,13 +9,14 @@ import Home from "./pages/Home";
 import Schedule from "./pages/Schedule";
 import Navbar from "./components/ui/Navbar";
 import ProtectedRoute from "./components/ui/ProtectedRoute";
+import MediaSessionProvider from "./components/ui/WebRTC/MediaSessionProvider";
 import { Toaster } from "sonner";
 
 const App: React.FC = () => {
   const location = useLocation();
 
   return (
-    <>
+    <MediaSessionProvider>
       <Navbar />
       <AnimatePresence exitBeforeEnter>
         <Routes location={location} key={location.pathname}>
@@ -106,7 +107,7 @@ const App: React.FC = () => {
         </Routes>
       </AnimatePresence>
       <Toaster />
-    </>
+    </MediaSessionProvider>
   );
 };
 
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Send, X } from "lucide-react";
+import { ChatMessage, parseChatMessage } from "../../lib/chat";
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  // Email of the current user, whose messages are shown on the right.
+  selfEmail: string | null;
+  onSend: (text: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const MessageBody: React.FC<{ text: string }> = ({ text }) => (
+  <div className="break-words whitespace-pre-wrap">
+    {parseChatMessage(text).map((segment, index) => {
+      switch (segment.type) {
+        case "code-block":
+          return (
+            <pre key={index} className="p-2 my-1 overflow-x-auto font-mono text-xs text-gray-100 bg-gray-800 rounded">
+              <code>{segment.value}</code>
+            </pre>
+          );
+        case "inline-code":
+          return (
+            <code key={index} className="px-1 font-mono text-xs bg-gray-200 rounded">
+              {segment.value}
+            </code>
+          );
+        case "link":
+          return (
+            <a key={index} href={segment.value} target="_blank" rel="noreferrer" className="text-blue-600 underline">
+              {segment.value}
+            </a>
+          );
+        default:
+          return <React.Fragment key={index}>{segment.value}</React.Fragment>;
+      }
+    })}
+  </div>
+);
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, selfEmail, onSend, onClose }) => {
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length]);
+
+  const send = async () => {
+    const text = draft.trim();
+    if (!text || sending) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      await onSend(text);
+      setDraft("");
+    } catch (err) {
+      console.error("Error sending chat message:", err);
+      setError("Message not sent. Try again.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Enter sends; Shift+Enter starts a new line, which code blocks need.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      send();
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full text-sm bg-white border rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <h3 className="font-semibold">Chat</h3>
+        <button onClick={onClose} title="Close chat" className="p-1 rounded hover:bg-gray-100">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div ref={listRef} className="flex flex-col flex-grow gap-3 p-3 overflow-y-auto">
+        {messages.length === 0 ? (
+          <p className="text-gray-500">No messages yet. Links, errors and code can be shared here.</p>
+        ) : (
+          messages.map((message) => {
+            const own = message.authorEmail === selfEmail;
+            return (
+              <div key={message._id} className={`flex flex-col max-w-[85%] ${own ? "self-end items-end" : "self-start"}`}>
+                <div className="text-xs text-gray-500">
+                  {own ? "You" : message.authorName} · {format(new Date(message.sentAt), "HH:mm")}
+                </div>
+                <div className={`px-3 py-2 rounded-lg ${own ? "bg-blue-100" : "bg-gray-100"}`}>
+                  <MessageBody text={message.text} />
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+      <div className="p-2 border-t">
+        {error && <p className="mb-1 text-xs text-red-600">{error}</p>}
+        <div className="flex items-end gap-2">
+          <textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={handleKeyDown}
+            rows={2}
+            placeholder="Message… (```code``` for code blocks)"
+            className="flex-grow px-2 py-1 border rounded resize-none"
+          />
+          <button
+            onClick={send}
+            disabled={sending || !draft.trim()}
+            title="Send"
+            className="p-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
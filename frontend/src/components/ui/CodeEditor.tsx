@@ -1,96 +1,414 @@
-import React, { useState, useEffect } from "react";
-import Editor from "@monaco-editor/react";
-import * as monaco from "monaco-editor";
-import {io,Socket} from "socket.io-client";
+import React, { useState, useEffect, useRef } from "react";
+import Editor, { OnMount } from "@monaco-editor/react";
+import { MonacoBinding } from "y-monaco";
 import { useLocation } from "react-router-dom";
+import axios from "axios";
+import { History, Play, Send } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { BASE_URL } from "../../constants/index";
+import OutputConsole, { ExecutionResult } from "./OutputConsole";
+import SqlResultView from "./SqlResultView";
+import LivePreview from "./LivePreview";
+import { SqlRunResult, runSql } from "../../lib/sqlRunner";
+import ProblemPanel, { Problem, Submission } from "./ProblemPanel";
+import monaco from "../../lib/monaco";
+import socket from "../../lib/socket";
+import { CollaborativeSession, DEFAULT_CODE } from "../../hooks/useCollaborativeDocument";
+import RemoteCursors from "./RemoteCursors";
+import SnapshotPanel from "./SnapshotPanel";
+import useCodeSnapshots, { CodeSnapshot } from "../../hooks/useCodeSnapshots";
+import FileExplorer from "./FileExplorer";
+import EditorTabs from "./EditorTabs";
+import {
+  WorkspaceFile,
+  createFile,
+  deleteFile,
+  detectLanguage,
+  getEntryFile,
+  getExtension,
+  getWorkspaceFiles,
+  readWorkspace,
+  renameFile,
+  replaceExtension,
+  replaceWorkspace,
+  setFileContent,
+} from "../../lib/workspace";
+import { LANGUAGE_PACKS, findLanguagePackByExtension, getLanguagePack } from "../../lib/languages";
 
-const socket: Socket = io("http://localhost:8013");
+const AUTO_SNAPSHOT_INTERVAL_MS = 60 * 1000;
 
-const languageOptions = [
-  { label: "JavaScript", value: "javascript" },
-  { label: "TypeScript", value: "typescript" },
-  { label: "Python", value: "python" },
-];
+const fileUri = (path: string) => monaco.Uri.parse(`file:///${path}`);
 
+const isDefaultWorkspace = (files: WorkspaceFile[]) =>
+  files.length === 1 && files[0].content === DEFAULT_CODE;
 
-const registerPythonCompletionProvider = () => {
-  
-  monaco.languages.registerCompletionItemProvider("python", {
-    provideCompletionItems: (model, position) => {
-      const suggestions = [
-        {
-          label: "def",
-          kind: monaco.languages.CompletionItemKind.Keyword,
-          insertText: "def ${1:function_name}(${2:params}):\n\t$0",
-          insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
-          detail: "Define a function",
-        },
-        {
-          label: "class",
-          kind: monaco.languages.CompletionItemKind.Keyword,
-          insertText:
-            "class ${1:ClassName}(${2:object}):\n\tdef __init__(self, ${3:args}):\n\t\t$0",
-          insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
-          detail: "Define a class",
-        },
-        {
-          label: "import",
-          kind: monaco.languages.CompletionItemKind.Keyword,
-          insertText: "import ",
-          detail: "Import a module",
-        },
-        {
-          label: "print",
-          kind: monaco.languages.CompletionItemKind.Function,
-          insertText: "print(${1:object})",
-          insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
-          detail: "Print a value",
-        },
-      ];
-      return { suggestions };
-    },
-  });
-};
 
-const CodeEditor: React.FC = () => {
+interface CodeEditorProps {
+  session: CollaborativeSession | null;
+  // Set while the recruiter has locked or frozen the code; the server rejects edits anyway.
+  readOnly: boolean;
+  // Called with the text of every paste into the editor.
+  onPaste?: (text: string) => void;
+}
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ session, readOnly, onPaste }) => {
 
   const location = useLocation();
   const queryParams = new URLSearchParams(location.search);
   const roomId = queryParams.get("roomId") || "default-room";
   
-  const [language, setLanguage] = useState("javascript");
-  const [code, setCode] = useState("// Start coding...");
-  
+  const [workspace, setWorkspace] = useState<WorkspaceFile[]>([]);
+  const [entryFile, setEntryFile] = useState("");
+  const [openPaths, setOpenPaths] = useState<string[]>([]);
+  const [activePath, setActivePath] = useState("");
+  // Bumped whenever files are added, removed or replaced, so the editor rebinds.
+  const [structureVersion, setStructureVersion] = useState(0);
+  const [stdin, setStdin] = useState("");
+  const [result, setResult] = useState<ExecutionResult | null>(null);
+  const [sqlResult, setSqlResult] = useState<SqlRunResult | null>(null);
+  const [previewKey, setPreviewKey] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [runBy, setRunBy] = useState<string | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [problems, setProblems] = useState<Problem[]>([]);
+  const [selectedProblemId, setSelectedProblemId] = useState("");
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [submittedBy, setSubmittedBy] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [editor, setEditor] = useState<Parameters<OnMount>[0] | null>(null);
+
+  const storedUser = localStorage.getItem("user");
+  const user = storedUser ? JSON.parse(storedUser) : null;
+  const userName: string = user?.name || "Participant";
+  const userRole: string = user?.role || "guest";
+
+  const doc = session?.doc;
+  const isRecruiter = userRole === "recruiter";
+
+  const [showHistory, setShowHistory] = useState(false);
+  const { snapshots, saveSnapshot } = useCodeSnapshots(socket, roomId);
+
+  const paths = workspace.map((file) => file.path);
+  // The language of the workspace is whatever the entry file is written in.
+  const languagePack = findLanguagePackByExtension(getExtension(entryFile));
+  const language = languagePack?.id || "";
+  const code = workspace.find((file) => file.path === entryFile)?.content ?? "";
+
+  // Tabs can point at files someone else just renamed or deleted, so fall back
+  // to the entry file rather than showing an empty editor.
+  const currentPath = paths.includes(activePath) ? activePath : paths.includes(entryFile) ? entryFile : paths[0] || "";
+  const visibleTabs = openPaths.filter((path) => paths.includes(path));
+  if (currentPath && !visibleTabs.includes(currentPath)) {
+    visibleTabs.push(currentPath);
+  }
+
+  // The interval reads the latest workspace through refs instead of restarting on every edit.
+  const latestWorkspaceRef = useRef({ files: workspace, entryFile, language });
+  latestWorkspaceRef.current = { files: workspace, entryFile, language };
+  const lastSnapshotRef = useRef<string | null>(null);
+
+  // Starter code only replaces the entry file while nobody has typed over it yet.
+  const untouchedCodeRef = useRef(DEFAULT_CODE);
+
+  const selectedProblem = problems.find((problem) => problem._id === selectedProblemId) || null;
+
+  // The file list, entry file and selected problem live in the shared document
+  // next to the code, so they are synced the same way and restored for late joiners.
+  useEffect(() => {
+    if (!doc) return;
+
+    const files = getWorkspaceFiles(doc);
+    const meta = doc.getMap<string>("meta");
+    const syncFiles = () => setWorkspace(readWorkspace(doc));
+    const syncStructure = () => setStructureVersion((version) => version + 1);
+    const syncMeta = (event?: { keysChanged: Set<string> }) => {
+      setEntryFile(getEntryFile(doc));
+      setSelectedProblemId(meta.get("problemId") || "");
+      if (event?.keysChanged.has("problemId")) {
+        setSubmission(null);
+      }
+    };
+
+    syncFiles();
+    syncMeta();
+    files.observeDeep(syncFiles);
+    files.observe(syncStructure);
+    meta.observe(syncMeta);
+    return () => {
+      files.unobserveDeep(syncFiles);
+      files.unobserve(syncStructure);
+      meta.unobserve(syncMeta);
+    };
+  }, [doc]);
+
+  // Each file gets its own monaco model, so undo history, language services and
+  // cross-file imports behave like a real project.
+  useEffect(() => {
+    if (!session || !editor || !currentPath) return;
+
+    const ytext = getWorkspaceFiles(session.doc).get(currentPath);
+    if (!ytext) return;
+
+    const uri = fileUri(currentPath);
+    const model = monaco.editor.getModel(uri) || monaco.editor.createModel(ytext.toString(), detectLanguage(currentPath), uri);
+    editor.setModel(model);
+    const binding = new MonacoBinding(ytext, model, new Set([editor]), session.awareness);
+
+    return () => {
+      binding.destroy();
+    };
+  }, [session, editor, currentPath, structureVersion]);
+
+  useEffect(() => {
+    if (!editor || !onPaste) return;
+
+    const subscription = editor.onDidPaste((event) => {
+      const text = editor.getModel()?.getValueInRange(event.range);
+      if (text) onPaste(text);
+    });
+    return () => subscription.dispose();
+  }, [editor, onPaste]);
+
+  // Models of files that no longer exist are dropped, and all of them go with the editor.
+  useEffect(() => {
+    if (!doc) return;
+
+    const files = getWorkspaceFiles(doc);
+    monaco.editor.getModels()
+      .filter((model) => model.uri.scheme === "file" && !files.has(model.uri.path.slice(1)))
+      .forEach((model) => model.dispose());
+  }, [doc, structureVersion]);
+
+  useEffect(() => {
+    return () => {
+      monaco.editor.getModels()
+        .filter((model) => model.uri.scheme === "file")
+        .forEach((model) => model.dispose());
+    };
+  }, []);
+
+  // One periodic snapshotter per room is enough, so only the recruiter's client runs it.
+  useEffect(() => {
+    if (!isRecruiter) return;
+
+    const timer = setInterval(() => {
+      const current = latestWorkspaceRef.current;
+      const serialized = JSON.stringify([current.files, current.entryFile]);
+      if (!current.language || serialized === lastSnapshotRef.current || isDefaultWorkspace(current.files)) return;
+
+      lastSnapshotRef.current = serialized;
+      saveSnapshot({ ...current, trigger: "auto" });
+    }, AUTO_SNAPSHOT_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isRecruiter, saveSnapshot]);
+
   useEffect(()=>{
-    socket.emit("join", roomId);
+    socket.on("execution-started", ({ startedBy }: { startedBy: string }) => {
+      setRunning(true);
+      setRunBy(startedBy);
+      setRunError(null);
+    });
+
+    socket.on(
+      "execution-result",
+      ({ result, sqlResult, startedBy }: { result?: ExecutionResult; sqlResult?: SqlRunResult; startedBy: string }) => {
+        setRunning(false);
+        setRunBy(startedBy);
+        setResult(result || null);
+        setSqlResult(sqlResult || null);
+      }
+    );
+
+    socket.on("preview-reload", () => setPreviewKey((key) => key + 1));
+
+    socket.on("submission-result", ({ submission, submittedBy }: { submission: Submission; submittedBy: string }) => {
+      setSubmission(submission);
+      setSubmittedBy(submittedBy);
+    });
 
-    
-    socket.on("code-change", (newCode: string) => {
-      setCode(newCode);
+    socket.on("snapshot-restored", ({ restoredBy, snapshotCreatedAt }: { restoredBy: string; snapshotCreatedAt: string }) => {
+      toast.info(`${restoredBy} restored the snapshot from ${format(new Date(snapshotCreatedAt), "HH:mm:ss")}`);
     });
 
     return () => {
-      socket.off("code-change");
+      socket.off("snapshot-restored");
+      socket.off("execution-started");
+      socket.off("execution-result");
+      socket.off("submission-result");
+      socket.off("preview-reload");
     };
   },[roomId]);
 
   useEffect(() => {
-    if (language === "python") {
-      
-      registerPythonCompletionProvider();
-    }
-    
-  }, [language]);
+    const fetchProblems = async () => {
+      try {
+        const res = await axios.get(`${BASE_URL}/interviews/${roomId}/problems`, {
+          withCredentials: true,
+        });
+        setProblems(res.data.problems);
+      } catch (error) {
+        console.error("Error fetching interview problems:", error);
+      }
+    };
+
+    fetchProblems();
+  }, [roomId]);
+
+  const replaceUntouchedCode = (path: string, nextCode: string | undefined) => {
+    if (!doc || nextCode === undefined || code !== untouchedCodeRef.current) return;
+
+    untouchedCodeRef.current = nextCode;
+    setFileContent(doc, path, nextCode);
+  };
 
+  // Switching language swaps the entry file's extension, e.g. main.js -> main.py,
+  // unless the language insists on a particular file name.
   const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setLanguage(e.target.value);
+    const pack = getLanguagePack(e.target.value);
+    if (!doc || !pack || !entryFile) return;
+
+    const directory = entryFile.includes("/") ? entryFile.slice(0, entryFile.lastIndexOf("/") + 1) : "";
+    const nextEntry = pack.entryFileName
+      ? `${directory}${pack.entryFileName}`
+      : replaceExtension(entryFile, pack.extensions[0]);
+    if (paths.includes(nextEntry)) {
+      doc.getMap<string>("meta").set("entryFile", nextEntry);
+      return;
+    }
+
+    renameFile(doc, entryFile, nextEntry);
+    replaceUntouchedCode(nextEntry, selectedProblem?.starterCode[pack.id] ?? pack.starter);
+  };
+
+  const handleProblemChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const problemId = e.target.value;
+    doc?.getMap<string>("meta").set("problemId", problemId);
+
+    const problem = problems.find((item) => item._id === problemId);
+    if (problem && language) {
+      replaceUntouchedCode(entryFile, problem.starterCode[language]);
+    }
+  };
+
+  const openFile = (path: string) => {
+    setActivePath(path);
+    setOpenPaths((prev) => (prev.includes(path) ? prev : [...prev, path]));
+  };
+
+  const closeFile = (path: string) => {
+    const remaining = visibleTabs.filter((item) => item !== path);
+    setOpenPaths(remaining);
+    if (path === currentPath) {
+      setActivePath(remaining[remaining.length - 1] || entryFile);
+    }
+  };
+
+  const handleCreateFile = (path: string) => {
+    if (!doc) return;
+    createFile(doc, path);
+    openFile(path);
+  };
+
+  const handleRenameFile = (fromPath: string, toPath: string) => {
+    if (!doc) return;
+    renameFile(doc, fromPath, toPath);
+    setOpenPaths((prev) => prev.map((item) => (item === fromPath ? toPath : item)));
+    if (currentPath === fromPath) {
+      setActivePath(toPath);
+    }
+  };
+
+  const handleDeleteFile = (path: string) => {
+    if (!doc) return;
+    deleteFile(doc, path);
+  };
+
+  const handleSetEntryFile = (path: string) => {
+    doc?.getMap<string>("meta").set("entryFile", path);
+  };
+
+  // SQL runs locally against the problem's fixture; everyone else still sees the result tables.
+  const runSqlQuery = async () => {
+    const nextResult = await runSql(selectedProblem?.sql?.fixture || "", code);
+    setSqlResult(nextResult);
+    socket.emit("execution-result", { roomId, sqlResult: nextResult });
+    setRunning(false);
+  };
+
+  const handleRun = async () => {
+    // The preview already follows every edit; Run just reloads it for everyone.
+    if (languagePack?.browserRunner === "preview") {
+      setPreviewKey((key) => key + 1);
+      socket.emit("preview-reload", { roomId });
+      return;
+    }
+
+    setRunning(true);
+    setRunBy(userName);
+    setRunError(null);
+
+    if (languagePack?.browserRunner === "sql") {
+      socket.emit("execution-started", { roomId, language });
+      await runSqlQuery();
+      return;
+    }
+
+    // The server shows the run and its output to the rest of the room.
+    try {
+      const res = await axios.post(
+        `${BASE_URL}/execute`,
+        { language, files: workspace, entryFile, stdin, roomId },
+        { withCredentials: true }
+      );
+      setResult(res.data.result);
+    } catch (error) {
+      console.error("Error running code:", error);
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : "Failed to run code.";
+      setResult(null);
+      setRunError(message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSaveSnapshot = (label: string) => {
+    lastSnapshotRef.current = JSON.stringify([workspace, entryFile]);
+    saveSnapshot({ files: workspace, entryFile, language, trigger: "manual", label: label || undefined });
+  };
+
+  const handleRestoreSnapshot = async (snapshot: CodeSnapshot) => {
+    if (!doc) return;
+
+    // The workspace being replaced is kept too, so a restore can itself be undone.
+    await saveSnapshot({ files: workspace, entryFile, language, trigger: "manual", label: "Before restore" });
+
+    replaceWorkspace(doc, snapshot.files, snapshot.entryFile);
+    lastSnapshotRef.current = JSON.stringify([snapshot.files, snapshot.entryFile]);
+    socket.emit("snapshot-restored", { roomId, snapshotId: snapshot._id });
   };
 
-  const handleEditorChange = (value: string | undefined) => {
-    const updatedCode = value || "";
-    setCode(updatedCode);
-    console.log("Current code:", value);
-    socket.emit("code-change", { roomId, code: updatedCode });
+  const handleSubmit = async () => {
+    if (!selectedProblem) return;
+
+    setSubmitting(true);
+    try {
+      const res = await axios.post(
+        `${BASE_URL}/interviews/${roomId}/submissions`,
+        { problemId: selectedProblem._id, language, files: workspace, entryFile },
+        { withCredentials: true }
+      );
+      setSubmission(res.data.submission);
+      setSubmittedBy(userName);
+    } catch (error) {
+      console.error("Error submitting solution:", error);
+      setRunError("Submission failed. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   return (
@@ -103,27 +421,120 @@ const CodeEditor: React.FC = () => {
           id="language-select"
           value={language}
           onChange={handleLanguageChange}
+          disabled={readOnly}
           className="px-2 py-1 border rounded"
         >
-          {languageOptions.map((option) => (
-            <option key={option.value} value={option.value}>
-              {option.label}
+          {!language && <option value="">Not runnable</option>}
+          {LANGUAGE_PACKS.map((pack) => (
+            <option key={pack.id} value={pack.id}>
+              {pack.label}
             </option>
           ))}
         </select>
+        {problems.length > 0 && (
+          <select
+            value={selectedProblemId}
+            onChange={handleProblemChange}
+            disabled={readOnly}
+            className="px-2 py-1 border rounded"
+          >
+            <option value="">Select a problem</option>
+            {problems.map((problem) => (
+              <option key={problem._id} value={problem._id}>
+                {problem.title}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="ml-auto">
+          {session && <RemoteCursors awareness={session.awareness} />}
+        </div>
+        <button
+          onClick={() => setShowHistory((prev) => !prev)}
+          title="Snapshots"
+          className={`p-1.5 border rounded ${showHistory ? "bg-gray-200" : "bg-white hover:bg-gray-100"}`}
+        >
+          <History className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleRun}
+          disabled={running || !language}
+          title={language ? undefined : "The entry file is not in a runnable language"}
+          className="flex items-center gap-1 px-3 py-1 text-white bg-green-500 rounded hover:bg-green-600 disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          {running ? "Running..." : "Run"}
+        </button>
+        {selectedProblem && languagePack?.browserRunner !== "preview" && (
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="flex items-center gap-1 px-3 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            {submitting ? "Grading..." : "Submit"}
+          </button>
+        )}
       </div>
-      <div className="flex-grow border rounded-md">
-        <Editor
-          height="100%"
-          language={language}
-          value={code}
-          onChange={handleEditorChange}
-          theme="vs-light" 
-          options={{
-            minimap: { enabled: false },
-          }}
+      {selectedProblem && (
+        <ProblemPanel problem={selectedProblem} submission={submission} submittedBy={submittedBy} />
+      )}
+      <div className="flex flex-grow min-h-0 gap-2">
+        <FileExplorer
+          readOnly={readOnly}
+          paths={paths}
+          activePath={currentPath}
+          entryFile={entryFile}
+          onOpen={openFile}
+          onCreate={handleCreateFile}
+          onRename={handleRenameFile}
+          onDelete={handleDeleteFile}
+          onSetEntry={handleSetEntryFile}
         />
+        <div className="flex flex-col flex-grow min-w-0 overflow-hidden border rounded-md">
+          <EditorTabs openPaths={visibleTabs} activePath={currentPath} onSelect={openFile} onClose={closeFile} />
+          <div className="flex-grow min-h-0">
+            <Editor
+              height="100%"
+              onMount={(mountedEditor) => setEditor(mountedEditor)}
+              theme="vs-light" 
+              options={{
+                minimap: { enabled: false },
+                // The editor is hidden while the whiteboard is shown and must resize when it comes back.
+                automaticLayout: true,
+                // Leaves room for the name label above a remote cursor on the first line.
+                padding: { top: 16 },
+                readOnly,
+              }}
+            />
+          </div>
+        </div>
+        {languagePack?.browserRunner === "preview" && (
+          <LivePreview files={workspace} entryFile={entryFile} reloadKey={previewKey} />
+        )}
+        {showHistory && (
+          <SnapshotPanel
+            snapshots={snapshots}
+            currentFiles={workspace}
+            currentEntryFile={entryFile}
+            canRestore={isRecruiter && !readOnly}
+            onSave={handleSaveSnapshot}
+            onRestore={handleRestoreSnapshot}
+          />
+        )}
       </div>
+      {languagePack?.browserRunner === "sql" ? (
+        <SqlResultView result={sqlResult} running={running} runBy={runBy} error={runError} />
+      ) : languagePack?.browserRunner !== "preview" ? (
+        <OutputConsole
+          stdin={stdin}
+          onStdinChange={setStdin}
+          result={result}
+          running={running}
+          runBy={runBy}
+          error={runError}
+        />
+      ) : null}
     </div>
   );
 };
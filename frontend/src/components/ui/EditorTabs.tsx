@@ -0,0 +1,39 @@
+import React from "react";
+import { X } from "lucide-react";
+
+interface EditorTabsProps {
+  openPaths: string[];
+  activePath: string;
+  onSelect: (path: string) => void;
+  onClose: (path: string) => void;
+}
+
+const EditorTabs: React.FC<EditorTabsProps> = ({ openPaths, activePath, onSelect, onClose }) => {
+  return (
+    <div className="flex overflow-x-auto border-b bg-gray-50">
+      {openPaths.map((path) => (
+        <div
+          key={path}
+          onClick={() => onSelect(path)}
+          className={`flex items-center gap-1 px-3 py-1 text-sm border-r cursor-pointer whitespace-nowrap ${
+            path === activePath ? "bg-white font-medium" : "text-gray-600 hover:bg-gray-100"
+          }`}
+        >
+          {path.split("/").pop()}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onClose(path);
+            }}
+            title="Close"
+            className="p-0.5 rounded hover:bg-gray-200"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EditorTabs;
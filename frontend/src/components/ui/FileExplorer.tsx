@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import { FilePlus, FileText, Folder, Pencil, Play, Trash2 } from "lucide-react";
+import { validateFilePath } from "../../lib/workspace";
+
+interface FileExplorerProps {
+  paths: string[];
+  activePath: string;
+  entryFile: string;
+  onOpen: (path: string) => void;
+  onCreate: (path: string) => void;
+  onRename: (fromPath: string, toPath: string) => void;
+  onDelete: (path: string) => void;
+  onSetEntry: (path: string) => void;
+  readOnly?: boolean;
+}
+
+type TreeRow = { kind: "folder" | "file"; path: string; name: string; depth: number };
+
+// Flattens the sorted paths into rows, emitting each folder once before its contents.
+const buildRows = (paths: string[]): TreeRow[] => {
+  const rows: TreeRow[] = [];
+  const seenFolders = new Set<string>();
+
+  [...paths].sort().forEach((path) => {
+    const parts = path.split("/");
+    parts.slice(0, -1).forEach((name, index) => {
+      const folderPath = parts.slice(0, index + 1).join("/");
+      if (!seenFolders.has(folderPath)) {
+        seenFolders.add(folderPath);
+        rows.push({ kind: "folder", path: folderPath, name, depth: index });
+      }
+    });
+    rows.push({ kind: "file", path, name: parts[parts.length - 1], depth: parts.length - 1 });
+  });
+
+  return rows;
+};
+
+const FileExplorer: React.FC<FileExplorerProps> = ({
+  paths,
+  activePath,
+  entryFile,
+  onOpen,
+  onCreate,
+  onRename,
+  onDelete,
+  onSetEntry,
+  readOnly = false,
+}) => {
+  // "editingPath" is the file being renamed, or "" while a new file is being named.
+  const [editingPath, setEditingPath] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = (path: string) => {
+    setEditingPath(path);
+    setDraft(path);
+    setError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingPath(null);
+    setError(null);
+  };
+
+  const commitEditing = () => {
+    if (editingPath === null) return;
+
+    const nextPath = draft.trim();
+    if (editingPath && nextPath === editingPath) {
+      cancelEditing();
+      return;
+    }
+
+    const validationError = validateFilePath(nextPath, paths);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (editingPath) {
+      onRename(editingPath, nextPath);
+    } else {
+      onCreate(nextPath);
+    }
+    cancelEditing();
+  };
+
+  const handleDelete = (path: string) => {
+    if (window.confirm(`Delete ${path} for everyone in the room?`)) {
+      onDelete(path);
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="px-1 py-1">
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commitEditing();
+          if (e.key === "Escape") cancelEditing();
+        }}
+        onBlur={commitEditing}
+        placeholder="src/utils.js"
+        className="w-full px-1 py-0.5 text-sm border rounded"
+      />
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col w-48 text-sm bg-white border rounded-md">
+      <div className="flex items-center justify-between px-2 py-1 border-b">
+        <span className="font-semibold">Files</span>
+        {!readOnly && (
+          <button onClick={() => startEditing("")} title="New file" className="p-1 rounded hover:bg-gray-100">
+            <FilePlus className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <ul className="flex-grow py-1 overflow-auto">
+        {buildRows(paths).map((row) =>
+          row.kind === "folder" ? (
+            <li
+              key={`folder:${row.path}`}
+              className="flex items-center gap-1 px-2 py-0.5 text-gray-600"
+              style={{ paddingLeft: 8 + row.depth * 12 }}
+            >
+              <Folder className="w-4 h-4" />
+              {row.name}
+            </li>
+          ) : editingPath === row.path ? (
+            <li key={row.path}>{renderEditor()}</li>
+          ) : (
+            <li
+              key={row.path}
+              onClick={() => onOpen(row.path)}
+              className={`group flex items-center gap-1 px-2 py-0.5 cursor-pointer ${
+                row.path === activePath ? "bg-gray-200" : "hover:bg-gray-100"
+              }`}
+              style={{ paddingLeft: 8 + row.depth * 12 }}
+            >
+              <FileText className="w-4 h-4 shrink-0" />
+              <span className="flex-grow truncate">{row.name}</span>
+              {row.path === entryFile && (
+                <Play className="w-3 h-3 text-green-600 shrink-0" aria-label="Entry file" />
+              )}
+              {!readOnly && (
+                <>
+                  {row.path !== entryFile && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSetEntry(row.path);
+                      }}
+                      title="Run this file"
+                      className="hidden p-0.5 rounded group-hover:block hover:bg-gray-300"
+                    >
+                      <Play className="w-3 h-3" />
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startEditing(row.path);
+                    }}
+                    title="Rename"
+                    className="hidden p-0.5 rounded group-hover:block hover:bg-gray-300"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  {row.path !== entryFile && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(row.path);
+                      }}
+                      title="Delete"
+                      className="hidden p-0.5 rounded group-hover:block hover:bg-gray-300"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </>
+              )}
+            </li>
+          )
+        )}
+        {editingPath === "" && <li>{renderEditor()}</li>}
+      </ul>
+    </div>
+  );
+};
+
+export default FileExplorer;
@@ -0,0 +1,58 @@
+import React from "react";
+import { format } from "date-fns";
+import { ClipboardPaste, EyeOff, Eye, Minimize, Wrench } from "lucide-react";
+import { AWAY_EVENT_TYPES, IntegrityEvent, IntegrityEventType, describeIntegrityEvent } from "../../lib/integrity";
+
+interface IntegrityFeedProps {
+  events: IntegrityEvent[];
+}
+
+const icons: Record<IntegrityEventType, React.ElementType> = {
+  paste: ClipboardPaste,
+  "window-blur": EyeOff,
+  "window-focus": Eye,
+  "tab-hidden": EyeOff,
+  "tab-visible": Eye,
+  "fullscreen-exit": Minimize,
+  "devtools-open": Wrench,
+};
+
+const IntegrityFeed: React.FC<IntegrityFeedProps> = ({ events }) => {
+  const newestFirst = [...events].reverse();
+
+  return (
+    <div className="flex flex-col p-2 text-sm bg-white border rounded-md shadow-lg w-80 max-h-96">
+      <h3 className="mb-2 font-semibold">Integrity signals</h3>
+      {newestFirst.length === 0 ? (
+        <p className="text-gray-500">Nothing recorded for the candidate yet.</p>
+      ) : (
+        <ul className="flex flex-col gap-2 overflow-y-auto">
+          {newestFirst.map((event, index) => {
+            const Icon = icons[event.type];
+            const flagged = event.type === "paste" || AWAY_EVENT_TYPES.includes(event.type);
+            return (
+              <li key={event._id || index} className="flex gap-2">
+                <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${flagged ? "text-orange-500" : "text-gray-400"}`} />
+                <div className="min-w-0">
+                  <div className="text-xs text-gray-500">{format(new Date(event.occurredAt), "HH:mm:ss")}</div>
+                  <div>{describeIntegrityEvent(event)}</div>
+                  {event.pastedExcerpt && (
+                    <details className="mt-1">
+                      <summary className="text-xs text-gray-500 cursor-pointer">Show pasted text</summary>
+                      <pre className="p-1 mt-1 overflow-x-auto font-mono text-xs bg-gray-100 rounded whitespace-pre-wrap">
+                        {event.pastedExcerpt}
+                        {event.pastedLength && event.pastedLength > event.pastedExcerpt.length ? "\n…" : ""}
+                      </pre>
+                    </details>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default IntegrityFeed;
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { WorkspaceFile } from "../../lib/workspace";
+import { PREVIEW_MESSAGE_SOURCE, PreviewConsoleEntry, buildPreviewDocument } from "../../lib/preview";
+
+interface LivePreviewProps {
+  files: WorkspaceFile[];
+  entryFile: string;
+  // Changing it reloads the preview even when the files are unchanged.
+  reloadKey: number;
+}
+
+const REBUILD_DELAY_MS = 400;
+const MAX_CONSOLE_ENTRIES = 200;
+
+const levelStyles: Record<PreviewConsoleEntry["level"], string> = {
+  log: "text-gray-100",
+  info: "text-blue-300",
+  warn: "text-yellow-300",
+  error: "text-red-400",
+};
+
+const LivePreview: React.FC<LivePreviewProps> = ({ files, entryFile, reloadKey }) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [srcDoc, setSrcDoc] = useState("");
+  const [entries, setEntries] = useState<PreviewConsoleEntry[]>([]);
+
+  // Rebuilt after typing pauses rather than on every keystroke from either participant.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSrcDoc(buildPreviewDocument(files, entryFile));
+      setEntries([]);
+    }, REBUILD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [files, entryFile, reloadKey]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // The iframe has an opaque origin, so it is recognised by its window instead.
+      if (event.source !== iframeRef.current?.contentWindow || event.data?.source !== PREVIEW_MESSAGE_SOURCE) return;
+
+      const { level, text } = event.data as PreviewConsoleEntry;
+      setEntries((prev) => [...prev, { level, text }].slice(-MAX_CONSOLE_ENTRIES));
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  return (
+    <div className="flex flex-col w-1/2 min-w-0 gap-2">
+      <iframe
+        key={reloadKey}
+        ref={iframeRef}
+        title="Preview"
+        srcDoc={srcDoc}
+        // No allow-same-origin: the candidate's code cannot reach the app's cookies or DOM.
+        sandbox="allow-scripts allow-modals allow-forms"
+        className="flex-grow w-full bg-white border rounded-md"
+      />
+      <div className="flex flex-col h-32">
+        <div className="flex items-center justify-between mb-1 text-sm">
+          <span className="font-medium text-gray-700">Console</span>
+          <button onClick={() => setEntries([])} title="Clear console" className="p-1 rounded hover:bg-gray-200">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+        <pre className="flex-grow p-2 overflow-auto font-mono text-xs bg-gray-900 rounded whitespace-pre-wrap">
+          {entries.map((entry, index) => (
+            <div key={index} className={levelStyles[entry.level]}>
+              {entry.text}
+            </div>
+          ))}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default LivePreview;
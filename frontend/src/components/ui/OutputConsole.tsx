@@ -0,0 +1,78 @@
+import React from "react";
+
+export type ExecutionResult = {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+  compileFailed?: boolean;
+};
+
+interface OutputConsoleProps {
+  stdin: string;
+  onStdinChange: (value: string) => void;
+  result: ExecutionResult | null;
+  running: boolean;
+  runBy: string | null;
+  error: string | null;
+}
+
+const describeExit = (result: ExecutionResult) => {
+  if (result.compileFailed) return "Compilation failed";
+  if (result.timedOut) return "Time limit exceeded";
+  if (result.signal) return `Killed (${result.signal})`;
+  return `Exit code ${result.exitCode}`;
+};
+
+const OutputConsole: React.FC<OutputConsoleProps> = ({
+  stdin,
+  onStdinChange,
+  result,
+  running,
+  runBy,
+  error,
+}) => {
+  return (
+    <div className="grid h-40 grid-cols-3 gap-2 mt-2">
+      <div className="flex flex-col">
+        <label className="mb-1 text-sm font-medium text-gray-700" htmlFor="stdin-input">
+          Input (stdin)
+        </label>
+        <textarea
+          id="stdin-input"
+          value={stdin}
+          onChange={(e) => onStdinChange(e.target.value)}
+          className="flex-grow p-2 font-mono text-sm bg-white border rounded resize-none"
+          spellCheck={false}
+        />
+      </div>
+      <div className="flex flex-col col-span-2">
+        <div className="flex items-center justify-between mb-1 text-sm">
+          <span className="font-medium text-gray-700">Output</span>
+          {running ? (
+            <span className="text-gray-500">Running{runBy ? ` (started by ${runBy})` : ""}...</span>
+          ) : result ? (
+            <span className={result.exitCode === 0 ? "text-green-600" : "text-red-600"}>
+              {describeExit(result)} · {result.durationMs} ms{runBy ? ` · run by ${runBy}` : ""}
+            </span>
+          ) : null}
+        </div>
+        <pre className="flex-grow p-2 overflow-auto font-mono text-sm text-gray-100 bg-gray-900 rounded whitespace-pre-wrap">
+          {error && <span className="text-red-400">{error}</span>}
+          {result && (
+            <>
+              {result.stdout}
+              {result.stderr && <span className="text-red-400">{result.stderr}</span>}
+              {result.truncated && <span className="text-yellow-400">{"\n"}[output truncated]</span>}
+            </>
+          )}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default OutputConsole;
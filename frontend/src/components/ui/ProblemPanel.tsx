@@ -0,0 +1,102 @@
+import React from "react";
+import { CheckCircle, XCircle } from "lucide-react";
+
+export type Problem = {
+  _id: string;
+  title: string;
+  statement: string;
+  difficulty: "Easy" | "Medium" | "Hard";
+  tags: string[];
+  starterCode: Record<string, string>;
+  examples: { input: string; output: string; explanation?: string }[];
+  // Present on SQL problems; the reference query stays on the server.
+  sql?: { fixture: string; orderMatters: boolean };
+};
+
+export type Submission = {
+  _id: string;
+  problem: string;
+  language: string;
+  results: { passed: boolean; timedOut: boolean; exitCode: number | null; durationMs: number }[];
+  passedCount: number;
+  totalCount: number;
+  status: "Passed" | "Failed";
+  createdAt: string;
+};
+
+interface ProblemPanelProps {
+  problem: Problem;
+  submission: Submission | null;
+  submittedBy: string | null;
+}
+
+const difficultyStyles: Record<Problem["difficulty"], string> = {
+  Easy: "bg-green-200 text-green-800",
+  Medium: "bg-yellow-200 text-yellow-800",
+  Hard: "bg-red-200 text-red-800",
+};
+
+const ProblemPanel: React.FC<ProblemPanelProps> = ({ problem, submission, submittedBy }) => {
+  return (
+    <div className="p-3 mb-2 overflow-auto text-sm bg-white border rounded max-h-48">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h3 className="text-base font-semibold">{problem.title}</h3>
+        <span className={`rounded px-2 py-0.5 text-xs ${difficultyStyles[problem.difficulty]}`}>
+          {problem.difficulty}
+        </span>
+        {problem.tags.map((tag) => (
+          <span key={tag} className="rounded bg-gray-200 px-2 py-0.5 text-xs text-gray-700">
+            {tag}
+          </span>
+        ))}
+      </div>
+      <p className="text-gray-700 whitespace-pre-wrap">{problem.statement}</p>
+
+      {problem.sql && (
+        <details className="mt-2">
+          <summary className="font-semibold cursor-pointer">Database schema and data</summary>
+          <pre className="p-2 mt-1 overflow-auto font-mono text-xs bg-gray-100 rounded">{problem.sql.fixture}</pre>
+          {problem.sql.orderMatters && <p className="mt-1 text-xs text-gray-600">Row order is checked.</p>}
+        </details>
+      )}
+
+      {problem.examples.map((example, index) => (
+        <div key={index} className="p-2 mt-2 font-mono text-xs bg-gray-100 rounded">
+          <div>
+            <span className="font-semibold">Input:</span> {example.input || "(empty)"}
+          </div>
+          <div>
+            <span className="font-semibold">Output:</span> {example.output}
+          </div>
+          {example.explanation && (
+            <div className="font-sans text-gray-600">{example.explanation}</div>
+          )}
+        </div>
+      ))}
+
+      {submission && (
+        <div className="pt-2 mt-3 border-t">
+          <p className={submission.status === "Passed" ? "text-green-600" : "text-red-600"}>
+            {submission.status}: {submission.passedCount}/{submission.totalCount} hidden tests passed
+            {submittedBy ? ` · submitted by ${submittedBy}` : ""}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {submission.results.map((result, index) => (
+              <span key={index} className="flex items-center gap-1 text-xs text-gray-700">
+                {result.passed ? (
+                  <CheckCircle className="w-4 h-4 text-green-600" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-red-600" />
+                )}
+                Test {index + 1}
+                {result.timedOut ? " (timeout)" : ""}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProblemPanel;
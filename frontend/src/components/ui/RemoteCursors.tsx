@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from "react";
+import { Awareness } from "y-protocols/awareness";
+import { Participant } from "../../hooks/useCollaborativeDocument";
+
+interface RemoteCursorsProps {
+  awareness: Awareness;
+}
+
+const formatRole = (role: string) => role.charAt(0).toUpperCase() + role.slice(1);
+
+// Colors go into the stylesheet as they are, so only plain hex colors from
+// peers are used; an alpha suffix is appended for the selection background.
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const DEFAULT_CURSOR_COLOR = "#6b7280";
+
+const toParticipant = ({ name, role, color }: Partial<Participant>): Participant => ({
+  name: typeof name === "string" && name ? name : "Participant",
+  role: typeof role === "string" && role ? role : "participant",
+  color: typeof color === "string" && HEX_COLOR.test(color) ? color : DEFAULT_CURSOR_COLOR,
+});
+
+// Labels end up inside a CSS string literal, so quotes, backslashes and newlines go.
+const toCssString = (text: string) => `"${text.replace(/["\\\n\r]/g, "")}"`;
+
+const buildCursorStyles = (clientId: number, { name, role, color }: Participant) => `
+.yRemoteSelection-${clientId} { background-color: ${color}33; }
+.yRemoteSelectionHead-${clientId} {
+  position: absolute;
+  height: 100%;
+  box-sizing: border-box;
+  border-left: 2px solid ${color};
+}
+.yRemoteSelectionHead-${clientId}::after {
+  content: ${toCssString(`${name} (${formatRole(role)})`)};
+  position: absolute;
+  top: -1.3em;
+  left: -2px;
+  padding: 0 4px;
+  border-radius: 3px 3px 3px 0;
+  background-color: ${color};
+  color: #fff;
+  font-size: 10px;
+  line-height: 1.3em;
+  white-space: nowrap;
+  pointer-events: none;
+  z-index: 10;
+}`;
+
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ awareness }) => {
+  const [participants, setParticipants] = useState<[number, Participant][]>([]);
+
+  useEffect(() => {
+    const readStates = () => {
+      const next: [number, Participant][] = [];
+      awareness.getStates().forEach((state, clientId) => {
+        if (state.user) {
+          next.push([clientId, toParticipant(state.user)]);
+        }
+      });
+      setParticipants(next);
+    };
+
+    readStates();
+    awareness.on("change", readStates);
+    return () => {
+      awareness.off("change", readStates);
+    };
+  }, [awareness]);
+
+  const remoteParticipants = participants.filter(([clientId]) => clientId !== awareness.clientID);
+
+  return (
+    <div className="flex items-center gap-1">
+      <style>
+        {remoteParticipants.map(([clientId, participant]) => buildCursorStyles(clientId, participant)).join("\n")}
+      </style>
+      {participants.map(([clientId, participant]) => (
+        <span
+          key={clientId}
+          title={`${participant.name} (${formatRole(participant.role)})`}
+          className="flex items-center justify-center w-7 h-7 text-xs font-semibold text-white rounded-full"
+          style={{ backgroundColor: participant.color }}
+        >
+          {participant.name.charAt(0).toUpperCase()}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default RemoteCursors;
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { DiffEditor } from "@monaco-editor/react";
+import { format } from "date-fns";
+import { GitCompare, RotateCcw, Save } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./dialog";
+import { CodeSnapshot } from "../../hooks/useCodeSnapshots";
+import { WorkspaceFile, detectLanguage } from "../../lib/workspace";
+
+interface SnapshotPanelProps {
+  snapshots: CodeSnapshot[];
+  currentFiles: WorkspaceFile[];
+  currentEntryFile: string;
+  canRestore: boolean;
+  onSave: (label: string) => void;
+  onRestore: (snapshot: CodeSnapshot) => void;
+}
+
+const CURRENT_BUFFER_ID = "current";
+
+const describeSnapshot = (snapshot: CodeSnapshot) =>
+  `${format(new Date(snapshot.createdAt), "HH:mm:ss")}${snapshot.label ? ` · ${snapshot.label}` : ""}`;
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({
+  snapshots,
+  currentFiles,
+  currentEntryFile,
+  canRestore,
+  onSave,
+  onRestore,
+}) => {
+  const [label, setLabel] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [diffOpen, setDiffOpen] = useState(false);
+  const [diffPath, setDiffPath] = useState("");
+
+  const newestFirst = [...snapshots].reverse();
+
+  // Keeps at most two entries selected; picking a third drops the oldest pick.
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const resolveSide = (id: string) => {
+    if (id === CURRENT_BUFFER_ID) {
+      return { title: "Current workspace", files: currentFiles, entryFile: currentEntryFile, time: Date.now() };
+    }
+    const snapshot = snapshots.find((item) => item._id === id);
+    return snapshot
+      ? {
+          title: describeSnapshot(snapshot),
+          files: snapshot.files,
+          entryFile: snapshot.entryFile,
+          time: new Date(snapshot.createdAt).getTime(),
+        }
+      : null;
+  };
+
+  const sides = compareIds.map(resolveSide).filter((side) => side !== null);
+  const [original, modified] = [...sides].sort((a, b) => a.time - b.time);
+
+  // Files added or removed between the two sides diff against an empty buffer.
+  const diffPaths = Array.from(new Set(sides.flatMap((side) => side.files.map((file) => file.path)))).sort();
+  const selectedDiffPath = diffPaths.includes(diffPath) ? diffPath : modified?.entryFile || diffPaths[0] || "";
+  const contentAt = (files: WorkspaceFile[]) => files.find((file) => file.path === selectedDiffPath)?.content ?? "";
+
+  const handleSave = () => {
+    onSave(label.trim());
+    setLabel("");
+  };
+
+  return (
+    <div className="flex flex-col w-64 p-2 text-sm bg-white border rounded-md">
+      <h3 className="mb-2 font-semibold">Snapshots</h3>
+      <div className="flex gap-1 mb-2">
+        <input
+          value={label}
+          maxLength={200}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label (optional)"
+          className="flex-grow min-w-0 px-2 py-1 border rounded"
+        />
+        <button
+          onClick={handleSave}
+          title="Save snapshot"
+          className="px-2 text-white bg-green-500 rounded hover:bg-green-600"
+        >
+          <Save className="w-4 h-4" />
+        </button>
+      </div>
+      <button
+        onClick={() => setDiffOpen(true)}
+        disabled={compareIds.length !== 2}
+        className="flex items-center justify-center gap-1 py-1 mb-2 border rounded hover:bg-gray-100 disabled:opacity-50"
+      >
+        <GitCompare className="w-4 h-4" />
+        Compare selected
+      </button>
+
+      <ul className="flex-grow space-y-1 overflow-auto">
+        <li className="flex items-center gap-2 p-1 rounded hover:bg-gray-50">
+          <input
+            type="checkbox"
+            checked={compareIds.includes(CURRENT_BUFFER_ID)}
+            onChange={() => toggleCompare(CURRENT_BUFFER_ID)}
+          />
+          <span className="font-medium">Current workspace</span>
+        </li>
+        {newestFirst.map((snapshot) => (
+          <li key={snapshot._id} className="flex items-center gap-2 p-1 rounded hover:bg-gray-50">
+            <input
+              type="checkbox"
+              checked={compareIds.includes(snapshot._id)}
+              onChange={() => toggleCompare(snapshot._id)}
+            />
+            <div className="flex-grow min-w-0">
+              <div className="truncate">{describeSnapshot(snapshot)}</div>
+              <div className="text-xs text-gray-500">
+                {snapshot.trigger === "auto" ? "Auto" : "Manual"} · {snapshot.files.length} file
+                {snapshot.files.length === 1 ? "" : "s"}
+                {snapshot.createdByName ? ` · ${snapshot.createdByName}` : ""}
+              </div>
+            </div>
+            {canRestore && (
+              <button
+                onClick={() => onRestore(snapshot)}
+                title="Restore for everyone"
+                className="p-1 text-gray-600 rounded hover:bg-gray-200"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={diffOpen} onOpenChange={setDiffOpen}>
+        <DialogContent className="bg-white sm:max-w-[900px]">
+          <DialogHeader>
+            <DialogTitle>
+              {original && modified ? `${original.title} → ${modified.title}` : "Compare snapshots"}
+            </DialogTitle>
+          </DialogHeader>
+          {original && modified && (
+            <>
+              <select
+                value={selectedDiffPath}
+                onChange={(e) => setDiffPath(e.target.value)}
+                className="self-start px-2 py-1 border rounded"
+              >
+                {diffPaths.map((path) => (
+                  <option key={path} value={path}>
+                    {path}
+                  </option>
+                ))}
+              </select>
+              <div className="h-[60vh] border rounded">
+                <DiffEditor
+                  height="100%"
+                  original={contentAt(original.files)}
+                  modified={contentAt(modified.files)}
+                  language={detectLanguage(selectedDiffPath)}
+                  options={{ readOnly: true, minimap: { enabled: false } }}
+                />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SnapshotPanel;
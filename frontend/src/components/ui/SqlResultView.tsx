@@ -0,0 +1,70 @@
+import React from "react";
+import { SqlRunResult } from "../../lib/sqlRunner";
+
+interface SqlResultViewProps {
+  result: SqlRunResult | null;
+  running: boolean;
+  runBy: string | null;
+  error: string | null;
+}
+
+// Large result sets are cut off on screen; grading still sees every row.
+const MAX_VISIBLE_ROWS = 200;
+
+const SqlResultView: React.FC<SqlResultViewProps> = ({ result, running, runBy, error }) => {
+  const failed = Boolean(error || result?.error);
+
+  return (
+    <div className="flex flex-col h-40 mt-2">
+      <div className="flex items-center justify-between mb-1 text-sm">
+        <span className="font-medium text-gray-700">Results</span>
+        {running ? (
+          <span className="text-gray-500">Running{runBy ? ` (started by ${runBy})` : ""}...</span>
+        ) : result ? (
+          <span className={failed ? "text-red-600" : "text-green-600"}>
+            {failed ? "Error" : `${result.tables.length} result set${result.tables.length === 1 ? "" : "s"}`} ·{" "}
+            {result.durationMs} ms{runBy ? ` · run by ${runBy}` : ""}
+          </span>
+        ) : null}
+      </div>
+      <div className="flex-grow p-2 space-y-3 overflow-auto text-sm bg-white border rounded">
+        {(error || result?.error) && <p className="font-mono text-red-600">{error || result?.error}</p>}
+        {result && !result.error && result.tables.length === 0 && (
+          <p className="text-gray-500">The statement ran but returned no rows.</p>
+        )}
+        {result?.tables.map((table, tableIndex) => (
+          <div key={tableIndex}>
+            <table className="font-mono text-xs border-collapse">
+              <thead>
+                <tr>
+                  {table.columns.map((column, index) => (
+                    <th key={index} className="px-2 py-1 text-left bg-gray-100 border">
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, MAX_VISIBLE_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((value, index) => (
+                      <td key={index} className="px-2 py-1 border">
+                        {value === null ? <span className="text-gray-400">NULL</span> : String(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-1 text-xs text-gray-500">
+              {table.rows.length} row{table.rows.length === 1 ? "" : "s"}
+              {table.rows.length > MAX_VISIBLE_ROWS ? `, showing the first ${MAX_VISIBLE_ROWS}` : ""}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SqlResultView;
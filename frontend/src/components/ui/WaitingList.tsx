@@ -0,0 +1,48 @@
+import React from "react";
+import { format } from "date-fns";
+import { UserCheck, UserX } from "lucide-react";
+import { WaitingEntry } from "../../hooks/useWaitingRoom";
+
+interface WaitingListProps {
+  waiting: WaitingEntry[];
+  onAdmit: (userId: string) => void;
+  onDeny: (userId: string) => void;
+}
+
+const WaitingList: React.FC<WaitingListProps> = ({ waiting, onAdmit, onDeny }) => {
+  if (waiting.length === 0) return null;
+
+  return (
+    <div className="p-3 text-sm bg-white border rounded-lg shadow-sm">
+      <h3 className="mb-2 font-semibold">Waiting to join</h3>
+      <ul className="flex flex-col gap-2">
+        {waiting.map((entry) => (
+          <li key={entry.userId} className="flex items-center gap-2">
+            <div className="min-w-0">
+              <div className="font-medium truncate">{entry.name}</div>
+              <div className="text-xs text-gray-500 truncate">
+                {entry.email} · since {format(new Date(entry.since), "HH:mm")}
+              </div>
+            </div>
+            <button
+              onClick={() => onAdmit(entry.userId)}
+              className="flex items-center gap-1 px-3 py-1 ml-auto text-white bg-green-600 rounded-md hover:bg-green-700"
+            >
+              <UserCheck className="w-4 h-4" />
+              Admit
+            </button>
+            <button
+              onClick={() => onDeny(entry.userId)}
+              className="flex items-center gap-1 px-3 py-1 border rounded-md hover:bg-gray-100"
+            >
+              <UserX className="w-4 h-4" />
+              Deny
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default WaitingList;
@@ -0,0 +1,35 @@
+import React from "react";
+import { RoomEntryStatus } from "../../hooks/useWaitingRoom";
+import useMediaSession from "../../hooks/useMediaSession";
+import CameraPreview from "./WebRTC/CameraPreview";
+import DevicePicker from "./WebRTC/DevicePicker";
+
+interface WaitingRoomProps {
+  status: Exclude<RoomEntryStatus, "joined">;
+}
+
+// Shown until the server lets the socket into the room, with a preview of the
+// camera so the candidate can get ready, and pick devices, in the meantime.
+// The preview is the call's own stream, which carries on into the room.
+const WaitingRoom: React.FC<WaitingRoomProps> = ({ status }) => {
+  const { stream, devicePreferences, setDevicePreferences } = useMediaSession();
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen gap-4 bg-white">
+      <div className="w-[32rem] max-w-full overflow-hidden border rounded-lg shadow-sm aspect-video">
+        <CameraPreview />
+      </div>
+      <div className="w-[32rem] max-w-full">
+        <DevicePicker preferences={devicePreferences} onChange={setDevicePreferences} stream={stream} />
+      </div>
+      <p className="text-lg font-semibold">
+        {status === "waiting" ? "Waiting for the interviewer to let you in…" : "Joining the interview…"}
+      </p>
+      {status === "waiting" && (
+        <p className="text-gray-600">You will join the room automatically once you are admitted.</p>
+      )}
+    </div>
+  );
+};
+
+export default WaitingRoom;
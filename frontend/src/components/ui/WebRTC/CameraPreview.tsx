@@ -1,59 +1,34 @@
-import { Camera } from "lucide-react";
-import React, { useRef, useEffect ,useState} from "react";
+import React, { useRef, useEffect } from "react";
+import { useLocalStream } from "../../../hooks/useMediaSession";
 
-interface CameraPreviewProps{
-  cameraOn: boolean;
-  micOn: boolean;
-}
-
-
-const CameraPreview: React.FC<CameraPreviewProps> = ({ cameraOn,micOn}) => {
+// Shows the shared local stream, keeping it open while mounted. Muting and
+// turning the camera off happen on the session, so the preview shows exactly
+// what the call sends.
+const CameraPreview: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [streamStarted, setStreamStarted] = useState(false);
+  const { stream } = useLocalStream();
 
   useEffect(() => {
-    const startCamera = async () => {
-      try {
-        
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: true,
-          audio: true,
-        });
-        
-        stream.getVideoTracks().forEach((track)=> (track.enabled = cameraOn));
-        stream.getAudioTracks().forEach((track)=> (track.enabled = micOn));
-
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-        }
-        setStreamStarted(true);
-      } catch (error) {
-        console.error("Error accessing camera:", error);
-      }
-    };
-
-    startCamera();
-
-    
-    return () => {
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach((track) => track.stop());
-      }
-    };
-  }, [cameraOn,micOn]);
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
 
   return (
     <div className="h-full">
-      <video
-        ref={videoRef}
-        autoPlay
-        muted
-        playsInline
-        className="object-contain w-full h-full bg-gray-100 rounded-md"
-      />
+      {stream ? (
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className="object-contain w-full h-full bg-gray-100 rounded-md"
+        />
+      ) : (
+        <p className="text-center text-gray-500">Loading camera...</p>
+      )}
     </div>
   );
 };
 
-export default CameraPreview;
\ No newline at end of file
+export default CameraPreview;
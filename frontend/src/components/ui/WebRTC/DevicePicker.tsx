@@ -0,0 +1,72 @@
+import React from "react";
+import { Camera, Mic, Volume2 } from "lucide-react";
+import useMediaDevices from "../../../hooks/useMediaDevices";
+import { DevicePreferences, canChooseSpeaker } from "../../../lib/mediaDevices";
+
+interface DevicePickerProps {
+  preferences: DevicePreferences;
+  onChange: (patch: DevicePreferences) => void;
+  // The stream in use, so device names show up once access has been granted.
+  stream: MediaStream | null;
+}
+
+const DeviceSelect: React.FC<{
+  icon: React.ElementType;
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string | undefined;
+  onChange: (deviceId: string) => void;
+}> = ({ icon: Icon, label, devices, value, onChange }) => (
+  <label className="flex items-center gap-2 text-sm">
+    <Icon className="w-4 h-4 text-gray-600 shrink-0" />
+    <span className="w-24 font-medium text-gray-700 shrink-0">{label}</span>
+    <select
+      value={value || ""}
+      onChange={(event) => onChange(event.target.value)}
+      className="flex-grow min-w-0 px-2 py-1 border rounded"
+    >
+      <option value="">System default</option>
+      {devices
+        .filter((device) => device.deviceId && device.deviceId !== "default")
+        .map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${label} ${index + 1}`}
+          </option>
+        ))}
+    </select>
+  </label>
+);
+
+const DevicePicker: React.FC<DevicePickerProps> = ({ preferences, onChange, stream }) => {
+  const { cameras, microphones, speakers } = useMediaDevices(stream);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <DeviceSelect
+        icon={Camera}
+        label="Camera"
+        devices={cameras}
+        value={preferences.cameraId}
+        onChange={(deviceId) => onChange({ cameraId: deviceId || undefined })}
+      />
+      <DeviceSelect
+        icon={Mic}
+        label="Microphone"
+        devices={microphones}
+        value={preferences.microphoneId}
+        onChange={(deviceId) => onChange({ microphoneId: deviceId || undefined })}
+      />
+      {canChooseSpeaker() && (
+        <DeviceSelect
+          icon={Volume2}
+          label="Speaker"
+          devices={speakers}
+          value={preferences.speakerId}
+          onChange={(deviceId) => onChange({ speakerId: deviceId || undefined })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DevicePicker;
@@ -0,0 +1,139 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { MediaSession, MediaSessionContext, TrackReplacedListener } from "../../../hooks/useMediaSession";
+import useDevicePreferences from "../../../hooks/useDevicePreferences";
+import { mediaConstraints } from "../../../lib/mediaDevices";
+
+// Long enough to outlast a page transition, so going from the setup dialog
+// into the room hands over the open camera instead of reopening it.
+const RELEASE_DELAY_MS = 2000;
+
+// Owns the local camera and microphone for the whole app. The setup dialog,
+// the previews and the call all use this one stream, so muting here is what
+// the other side hears, and toggles only enable or disable tracks rather
+// than reopening devices.
+const MediaSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [devicePreferences, setDevicePreferences] = useDevicePreferences();
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [cameraOn, setCameraOn] = useState(true);
+  const [micOn, setMicOn] = useState(true);
+  const [users, setUsers] = useState(0);
+  const [wanted, setWanted] = useState(false);
+  const listenersRef = useRef(new Set<TrackReplacedListener>());
+  const preferencesRef = useRef(devicePreferences);
+  preferencesRef.current = devicePreferences;
+  // The devices the stream was last opened with.
+  const appliedDevicesRef = useRef(devicePreferences);
+
+  const retain = useCallback(() => {
+    setUsers((count) => count + 1);
+    return () => setUsers((count) => count - 1);
+  }, []);
+
+  const onTrackReplaced = useCallback((listener: TrackReplacedListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (users > 0) {
+      setWanted(true);
+      return;
+    }
+    const timer = setTimeout(() => setWanted(false), RELEASE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [users]);
+
+  useEffect(() => {
+    if (!wanted) return;
+
+    let opened: MediaStream | null = null;
+    let cancelled = false;
+    appliedDevicesRef.current = preferencesRef.current;
+
+    navigator.mediaDevices
+      .getUserMedia(mediaConstraints(appliedDevicesRef.current))
+      .then((mediaStream) => {
+        opened = mediaStream;
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        setStream(mediaStream);
+      })
+      .catch((error) => console.error("Error accessing media devices:", error));
+
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach((track) => track.stop());
+      setStream(null);
+    };
+  }, [wanted]);
+
+  // Muting disables the tracks rather than dropping them, so no renegotiation is needed.
+  useEffect(() => {
+    stream?.getVideoTracks().forEach((track) => (track.enabled = cameraOn));
+    stream?.getAudioTracks().forEach((track) => (track.enabled = micOn));
+  }, [stream, cameraOn, micOn]);
+
+  // Only the device that changed is reopened, keeping the other one live. A
+  // device counts as applied once its switch is done, so a switch cut short by
+  // another change is started again by the next run.
+  const { cameraId, microphoneId } = devicePreferences;
+  useEffect(() => {
+    if (!stream) return;
+
+    const applied = appliedDevicesRef.current;
+    const switches: { kind: "video" | "audio"; key: "cameraId" | "microphoneId"; deviceId: string | undefined }[] = [];
+    if (cameraId !== applied.cameraId) switches.push({ kind: "video", key: "cameraId", deviceId: cameraId });
+    if (microphoneId !== applied.microphoneId) switches.push({ kind: "audio", key: "microphoneId", deviceId: microphoneId });
+
+    let cancelled = false;
+    switches.forEach(({ kind, key, deviceId }) => {
+      navigator.mediaDevices
+        .getUserMedia({ [kind]: deviceId ? { deviceId: { exact: deviceId } } : true })
+        .then((switched) => {
+          const track = switched.getTracks()[0];
+          if (cancelled) {
+            track.stop();
+            return;
+          }
+
+          const previous = stream.getTracks().find((item) => item.kind === kind) || null;
+          track.enabled = previous ? previous.enabled : true;
+          if (previous) {
+            stream.removeTrack(previous);
+            previous.stop();
+          }
+          stream.addTrack(track);
+          appliedDevicesRef.current = { ...appliedDevicesRef.current, [key]: deviceId };
+          listenersRef.current.forEach((listener) => listener(previous, track));
+        })
+        .catch((error) => console.error("Error switching media device:", error));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stream, cameraId, microphoneId]);
+
+  const session: MediaSession = useMemo(
+    () => ({
+      stream,
+      cameraOn,
+      micOn,
+      setCameraOn,
+      setMicOn,
+      devicePreferences,
+      setDevicePreferences,
+      retain,
+      onTrackReplaced,
+    }),
+    [stream, cameraOn, micOn, devicePreferences, setDevicePreferences, retain, onTrackReplaced]
+  );
+
+  return <MediaSessionContext.Provider value={session}>{children}</MediaSessionContext.Provider>;
+};
+
+export default MediaSessionProvider;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React from "react";
 import {
   Dialog,
   DialogContent,
@@ -12,62 +12,14 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@radix-ui/react-label";
 import { useNavigate } from "react-router-dom";
 import {v4 as uuidv4} from "uuid";
+import DevicePicker from "./DevicePicker";
+import CameraPreview from "./CameraPreview";
+import useMediaSession from "../../../hooks/useMediaSession";
 
 const MeetingSetupDialog: React.FC = () => {
   
-  const [micOn, setMicOn] = useState(false);
-  const [cameraOn, setCameraOn] = useState(false);
-  
-  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const { cameraOn, micOn, setCameraOn, setMicOn, devicePreferences, setDevicePreferences, stream } = useMediaSession();
   const navigate = useNavigate();
-  const [meetingStart, setMeetingStart] = useState(false);
-
-
-  useEffect(() => {
-    const getLocalStream = async () => {
-      try {
-        
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: true,
-          audio: true,
-        });
-        console.log("Local stream obtained:", stream);
-        setLocalStream(stream);
-      } catch (error) {
-        console.error("Error accessing media devices:", error);
-      }
-    };
-
-    if(meetingStart)
-      getLocalStream();
-
-    
-    return () => {
-      if (localStream) {
-        localStream.getTracks().forEach((track) => track.stop());
-      }
-    };
-  }, [meetingStart]);
-
-  
-  const toggleCamera = () => {
-    if (localStream) {
-      localStream.getVideoTracks().forEach((track) => {
-        track.enabled = !track.enabled;
-      });
-      setCameraOn((prev) => !prev);
-    }
-  };
-
-  
-  const toggleMic = () => {
-    if (localStream) {
-      localStream.getAudioTracks().forEach((track) => {
-        track.enabled = !track.enabled;
-      });
-      setMicOn((prev) => !prev);
-    }
-  };
 
   
   const handleJoinMeeting = () => {
@@ -81,7 +33,6 @@ const MeetingSetupDialog: React.FC = () => {
         <Button
           variant="default"
           className="w-full text-white bg-green-500 mt-7 hover:bg-green-600"
-          onClick={()=>setMeetingStart(true)}
         >
           Start Call
         </Button>
@@ -95,38 +46,27 @@ const MeetingSetupDialog: React.FC = () => {
         </DialogHeader>
         <div className="grid gap-4 py-4">
           
-          <div className="flex justify-center">
-            {localStream ? (
-              <video
-                autoPlay
-                muted
-                playsInline
-                className="w-[400px] h-[300px] rounded-md border bg-black"
-                ref={(video) => {
-                  if (video && localStream) {
-                    video.srcObject = localStream;
-                  }
-                }}
-              />
-            ) : (
-              <p className="text-center text-gray-500">Loading camera...</p>
-            )}
+          {/* Only mounted while the dialog is open, so the camera is not opened before then. */}
+          <div className="flex justify-center w-[400px] h-[300px] mx-auto">
+            <CameraPreview />
           </div>
           
           <div className="flex items-center justify-around">
             <div className="flex flex-col items-center">
               <Label className="mb-1 text-sm">Camera</Label>
-              <Button variant="outline" onClick={toggleCamera}>
+              <Button variant="outline" onClick={() => setCameraOn((prev) => !prev)}>
                 {cameraOn ? "On" : "Off"}
               </Button>
             </div>
             <div className="flex flex-col items-center">
               <Label className="mb-1 text-sm">Mic</Label>
-              <Button variant="outline" onClick={toggleMic}>
+              <Button variant="outline" onClick={() => setMicOn((prev) => !prev)}>
                 {micOn ? "On" : "Off"}
               </Button>
             </div>
           </div>
+
+          <DevicePicker preferences={devicePreferences} onChange={setDevicePreferences} stream={stream} />
         </div>
         <DialogFooter>
           <Button
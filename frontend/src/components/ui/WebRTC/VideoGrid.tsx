@@ -0,0 +1,148 @@
+import React, { useEffect, useRef } from "react";
+import { MicOff, ScreenShare, VideoOff } from "lucide-react";
+import { PeerConnectionStatus } from "../../../hooks/useCallPeers";
+import { CallStatsSample } from "../../../lib/callStats";
+
+export type VideoTile = {
+  id: string;
+  stream: MediaStream | null;
+  name: string;
+  roleLabel: string;
+  // The local preview is muted so nobody hears their own microphone.
+  isLocal?: boolean;
+  // Set on a participant sharing their screen, which then takes most of the space.
+  spotlight?: boolean;
+  status?: PeerConnectionStatus;
+  // Shown over the video while the stats overlay is on.
+  stats?: CallStatsSample;
+  // What has been wrong with the connection for a while, if anything.
+  problems?: string[];
+  micOn?: boolean;
+  // Off only when the camera is off and no screen is shown instead.
+  cameraOn?: boolean;
+  sharingScreen?: boolean;
+  // Host controls, shown when hovering the tile.
+  actions?: TileAction[];
+};
+
+export type TileAction = {
+  label: string;
+  icon: React.ElementType;
+  onClick: () => void;
+};
+
+interface VideoGridProps {
+  tiles: VideoTile[];
+  // Audio output for the other participants; undefined plays on the default one.
+  speakerId?: string;
+}
+
+const gridColumns = (count: number) => (count <= 2 ? "grid-cols-1" : count <= 4 ? "grid-cols-2" : "grid-cols-3");
+
+const formatStat = (value: number | null, unit: string) => (value === null ? "–" : `${Math.round(value)} ${unit}`);
+
+const TileStats: React.FC<{ stats: CallStatsSample }> = ({ stats }) => (
+  <div className="absolute px-2 py-1 font-mono text-xs text-white bg-black bg-opacity-60 rounded top-2 left-2">
+    <div>↓ {formatStat(stats.bitrateInKbps, "kbps")} ↑ {formatStat(stats.bitrateOutKbps, "kbps")}</div>
+    <div>loss {formatStat(stats.packetLossPercent, "%")} · rtt {formatStat(stats.rttMs, "ms")}</div>
+    <div>jitter {formatStat(stats.jitterMs, "ms")} · {stats.resolution || "no video"}</div>
+  </div>
+);
+
+const TileVideo: React.FC<{ tile: VideoTile; speakerId?: string }> = ({ tile, speakerId }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = tile.stream;
+    }
+  }, [tile.stream]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (tile.isLocal || !video || !("setSinkId" in video)) return;
+    video.setSinkId(speakerId || "").catch((error) => console.error("Error switching speaker:", error));
+  }, [tile.isLocal, speakerId]);
+
+  return (
+    <div className="relative min-h-0 overflow-hidden bg-white border rounded-lg shadow-sm group">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={tile.isLocal}
+        className="object-contain w-full h-full bg-gray-100"
+      />
+      {!tile.stream ? (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">Connecting…</div>
+      ) : tile.cameraOn === false && tile.status !== "reconnecting" ? (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-gray-500 bg-gray-100">
+          <VideoOff className="w-8 h-8" />
+          <span className="text-sm">Camera off</span>
+        </div>
+      ) : tile.status === "reconnecting" ? (
+        // Covers the last frame, which otherwise looks like a frozen call.
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-white bg-black bg-opacity-50">
+          Reconnecting…
+        </div>
+      ) : null}
+      {tile.stats && <TileStats stats={tile.stats} />}
+      {tile.problems && tile.problems.length > 0 && (
+        <div className="absolute px-2 py-1 text-xs text-white bg-orange-500 rounded top-2 right-2">
+          Poor connection: {tile.problems.join(", ")}
+        </div>
+      )}
+      <div className="absolute px-2 py-1 text-sm text-white bg-black bg-opacity-60 rounded bottom-2 left-2">
+        <span className="font-semibold">{tile.name}</span>
+        <span className="ml-1 text-gray-300">· {tile.roleLabel}</span>
+        {tile.micOn === false && <MicOff className="inline w-4 h-4 ml-1 text-red-400" aria-label="Muted" />}
+        {tile.sharingScreen && <ScreenShare className="inline w-4 h-4 ml-1 text-blue-300" aria-label="Sharing screen" />}
+      </div>
+      {tile.actions && tile.actions.length > 0 && (
+        <div className="absolute hidden gap-1 bottom-2 right-2 group-hover:flex">
+          {tile.actions.map(({ label, icon: Icon, onClick }) => (
+            <button
+              key={label}
+              onClick={onClick}
+              title={label}
+              className="p-1.5 text-white bg-black bg-opacity-60 rounded-full hover:bg-opacity-80"
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Lays out one tile per participant, reflowing as people join and leave. A
+// shared screen gets the main area with everyone else in a strip below it.
+const VideoGrid: React.FC<VideoGridProps> = ({ tiles, speakerId }) => {
+  const spotlight = tiles.find((tile) => tile.spotlight);
+  if (!spotlight) {
+    return (
+      <div className={`grid h-full gap-4 auto-rows-fr ${gridColumns(tiles.length)}`}>
+        {tiles.map((tile) => (
+          <TileVideo key={tile.id} tile={tile} speakerId={speakerId} />
+        ))}
+      </div>
+    );
+  }
+
+  const others = tiles.filter((tile) => tile !== spotlight);
+  return (
+    <div className="flex flex-col h-full gap-4">
+      <div className="grid flex-grow min-h-0">
+        <TileVideo tile={spotlight} speakerId={speakerId} />
+      </div>
+      <div className="grid h-32 gap-4 shrink-0" style={{ gridTemplateColumns: `repeat(${others.length}, minmax(0, 1fr))` }}>
+        {others.map((tile) => (
+          <TileVideo key={tile.id} tile={tile} speakerId={speakerId} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VideoGrid;
@@ -1,132 +1,154 @@
 import React, { useEffect, useRef, useState } from "react";
-import { useParams } from "react-router-dom";
-import { io, Socket } from "socket.io-client";
-
-// Ensure the URL points to your signaling server on port 8013
-const SIGNALING_SERVER_URL = "http://localhost:8013";
-
-const configuration = {
-  iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
-};
-
-const WebRTCComponent: React.FC = () => {
-  
-  const { roomId } = useParams<{ roomId: string }>();
-
-  
-  const socketRef = useRef<Socket | null>(null);
-  const localStreamRef = useRef<MediaStream | null>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+import { useLocation } from "react-router-dom";
+import { Activity, Mic, MicOff, UserMinus } from "lucide-react";
+import socket from "../../../lib/socket";
+import useCallPeers, { RemotePeer } from "../../../hooks/useCallPeers";
+import { HostControls } from "../../../hooks/useHostControls";
+import useCallStats from "../../../hooks/useCallStats";
+import useIceServers from "../../../hooks/useIceServers";
+import useInterviewParticipants, { PARTICIPANT_ROLE_LABELS } from "../../../hooks/useInterviewParticipants";
+import { useLocalStream } from "../../../hooks/useMediaSession";
+import VideoGrid, { TileAction, VideoTile } from "./VideoGrid";
+
+interface WebRTCComponentProps {
+  screenSharing: boolean;
+  // Called when sharing stops from outside the app, e.g. the browser's own stop button.
+  onScreenShareEnded: () => void;
+  // Given to hosts only.
+  hostControls: HostControls | null;
+}
+
+// Sends the shared media session stream, so mute, camera and device changes
+// made anywhere in the app reach the call.
+const WebRTCComponent: React.FC<WebRTCComponentProps> = ({ screenSharing, onScreenShareEnded, hostControls }) => {
+
+  const location = useLocation();
+  const roomId = new URLSearchParams(location.search).get("roomId") || "default-room";
+
+  const storedUser = localStorage.getItem("user");
+  const user = storedUser ? JSON.parse(storedUser) : null;
+
+  const { stream: localStream, micOn, cameraOn, devicePreferences, onTrackReplaced } = useLocalStream();
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  // Read through a ref so a new callback from the parent does not restart the share.
+  const onScreenShareEndedRef = useRef(onScreenShareEnded);
+  onScreenShareEndedRef.current = onScreenShareEnded;
 
   useEffect(() => {
-    
-    const socketInstance = io(SIGNALING_SERVER_URL, {
-      transports: ["websocket"],
-    });
-    socketRef.current = socketInstance;
-
-    
-    const pc = new RTCPeerConnection(configuration);
-    peerConnectionRef.current = pc;
-
-    
-    if (roomId && socketInstance) {
-      socketInstance.emit("join", roomId);
-      console.log("Joined room:", roomId);
-    }
+    if (!screenSharing) return;
+
+    const handleEnded = () => onScreenShareEndedRef.current();
+    let stream: MediaStream | null = null;
+    let cancelled = false;
 
-    
     navigator.mediaDevices
-      .getUserMedia({ video: true, audio: true })
-      .then((stream) => {
-        localStreamRef.current = stream;
-        //add local tracks to peer connection
-        stream.getTracks().forEach((track) => {
-          if (pc.signalingState !== "closed") {
-            pc.addTrack(track, stream);
-          }
-        });
+      .getDisplayMedia({ video: true })
+      .then((displayStream) => {
+        stream = displayStream;
+        if (cancelled) {
+          displayStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        displayStream.getVideoTracks()[0].addEventListener("ended", handleEnded);
+        setScreenStream(displayStream);
       })
-      .catch((error) => console.error("Error accessing media devices:", error));
-
-    
-    pc.ontrack = (event) => {
-      const [remoteStream] = event.streams;
-      if (remoteVideoRef.current) {
-        remoteVideoRef.current.srcObject = remoteStream;
-      }
-    };
-
-    
-    pc.onicecandidate = (event) => {
-      if (event.candidate && socketRef.current && roomId) {
-        socketRef.current.emit("ice-candidate", { candidate: event.candidate, target: roomId });
-      }
-    };
-
-    
-    socketInstance.on("offer", async (data: any) => {
-      console.log("Received offer:", data);
-      if (!pc) return;
-      await pc.setRemoteDescription(new RTCSessionDescription(data.sdp));
-      const answer = await pc.createAnswer();
-      await pc.setLocalDescription(answer);
-      socketInstance.emit("answer", { sdp: answer, target: data.caller });
-    });
-
-    socketInstance.on("answer", async (data: any) => {
-      console.log("Received answer:", data);
-      if (!pc) return;
-      await pc.setRemoteDescription(new RTCSessionDescription(data.sdp));
-    });
-
-    socketInstance.on("ice-candidate", async (data: any) => {
-      console.log("Received ICE candidate:", data);
-      if (!pc) return;
-      try {
-        await pc.addIceCandidate(new RTCIceCandidate(data.candidate));
-      } catch (error) {
-        console.error("Error adding ICE candidate:", error);
-      }
-    });
-
-    
-    const timer = setTimeout(() => {
-      if (localStreamRef.current && pc && pc.signalingState === "stable" && roomId && socketRef.current) {
-        pc.createOffer()
-          .then((offer) => {
-            return pc.setLocalDescription(offer).then(() => offer);
-          })
-          .then((offer) => {
-            socketRef.current?.emit("offer", { sdp: offer, target: roomId });
-            console.log("Offer sent:", offer);
-          })
-          .catch((error) => {
-            console.error("Error initiating call:", error);
-          });
-      }
-    }, 2000);
+      .catch((error) => {
+        // Also reached when the picker is dismissed.
+        console.error("Error starting screen share:", error);
+        handleEnded();
+      });
 
     return () => {
-      clearTimeout(timer);
-      
-      if (peerConnectionRef.current && peerConnectionRef.current.signalingState !== "closed") {
-        peerConnectionRef.current.close();
-      }
-      
-      socketInstance.disconnect();
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      setScreenStream(null);
     };
-  }, [roomId]);
+  }, [screenSharing]);
+
+  const screenTrack = screenStream?.getVideoTracks()[0] || null;
+  const iceConfiguration = useIceServers();
+  const { peers, signalingLost, getPeerConnection, replaceSenderTrack } = useCallPeers(
+    socket,
+    roomId,
+    iceConfiguration,
+    localStream,
+    screenTrack,
+    { micOn, cameraOn }
+  );
+  useEffect(() => onTrackReplaced(replaceSenderTrack), [onTrackReplaced, replaceSenderTrack]);
+
+  // Polled whether or not the overlay is open, so warnings and the stored record do not depend on it.
+  const { stats, degraded } = useCallStats(roomId, peers, getPeerConnection);
+  const participants = useInterviewParticipants(roomId);
+
+  // Labels come from the interview record when the person is on it, and from
+  // what they joined the call as otherwise.
+  const describe = (email: string | null, name: string, role: string) => {
+    const participant = participants.find((item) => item.email === email);
+    if (participant) return { name: participant.name, roleLabel: PARTICIPANT_ROLE_LABELS[participant.role] };
+    return { name, roleLabel: role === "candidate" ? "Candidate" : role === "recruiter" ? "Interviewer" : "Guest" };
+  };
+
+  // Only candidates can be removed; the server refuses to remove a host.
+  const actionsFor = (peer: RemotePeer): TileAction[] => {
+    if (!hostControls) return [];
+    const actions: TileAction[] = [
+      peer.micOn
+        ? { label: "Mute", icon: MicOff, onClick: () => hostControls.mute(peer.peerId) }
+        : { label: "Ask to unmute", icon: Mic, onClick: () => hostControls.askToUnmute(peer.peerId) },
+    ];
+    if (peer.role === "candidate") {
+      actions.push({ label: "Remove from the room", icon: UserMinus, onClick: () => hostControls.remove(peer.peerId) });
+    }
+    return actions;
+  };
+
+  const self = describe(user?.email || null, user?.name || "Participant", user?.role || "guest");
+  const tiles: VideoTile[] = [
+    ...peers.map((peer) => ({
+      id: peer.peerId,
+      stream: peer.stream,
+      spotlight: peer.sharingScreen,
+      status: peer.status,
+      stats: showStats ? stats[peer.peerId] : undefined,
+      problems: degraded[peer.peerId],
+      micOn: peer.micOn,
+      cameraOn: peer.cameraOn || peer.sharingScreen,
+      sharingScreen: peer.sharingScreen,
+      actions: actionsFor(peer),
+      ...describe(peer.email, peer.name, peer.role),
+    })),
+    {
+      id: "local",
+      // Sharers see their own screen in their tile, to know what the others see.
+      stream: screenStream || localStream,
+      isLocal: true,
+      name: `${self.name} (you)`,
+      roleLabel: self.roleLabel,
+      micOn,
+      cameraOn: cameraOn || !!screenStream,
+      sharingScreen: !!screenStream,
+    },
+  ];
 
   return (
-    <div className="h-full">
-          <video
-            ref={remoteVideoRef}
-            autoPlay
-            playsInline
-            className="object-contain w-full h-full bg-gray-100 rounded-md"
-          />
+    <div className="relative flex-1 min-h-0">
+      <VideoGrid tiles={tiles} speakerId={devicePreferences.speakerId} />
+      <button
+        onClick={() => setShowStats((prev) => !prev)}
+        title={showStats ? "Hide connection stats" : "Show connection stats"}
+        className={`absolute z-10 p-1.5 rounded-full bottom-2 right-2 ${
+          showStats ? "bg-blue-600 text-white" : "bg-white text-gray-700 border hover:bg-gray-100"
+        }`}
+      >
+        <Activity className="w-4 h-4" />
+      </button>
+      {signalingLost && (
+        <div className="absolute inset-x-0 top-0 z-10 px-3 py-2 text-sm text-center text-white bg-yellow-600 rounded-t-lg">
+          Connection lost. Reconnecting…
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,456 @@
+import React, { useEffect, useRef, useState } from "react";
+import axios from "axios";
+import { v4 as uuidv4 } from "uuid";
+import { toast } from "sonner";
+import {
+  ArrowUpRight,
+  Circle,
+  Hand,
+  ImageDown,
+  MousePointer2,
+  Pencil,
+  Square,
+  Trash2,
+  Type,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { BASE_URL } from "../../constants/index";
+import { CollaborativeSession } from "../../hooks/useCollaborativeDocument";
+import {
+  TEXT_FONT_SIZE,
+  WhiteboardShape,
+  clearWhiteboard,
+  exportWhiteboardPng,
+  getWhiteboardShapes,
+  isEmptyShape,
+  moveShape,
+  normalizeShape,
+  readShape,
+  readShapes,
+  shapeBounds,
+} from "../../lib/whiteboard";
+
+interface WhiteboardProps {
+  session: CollaborativeSession | null;
+  roomId: string;
+}
+
+type Tool = "select" | "pan" | "rect" | "ellipse" | "arrow" | "text" | "freehand";
+
+type Drag =
+  | { mode: "pan"; lastX: number; lastY: number }
+  | { mode: "move"; id: string; lastX: number; lastY: number }
+  | { mode: "create"; id: string; startX: number; startY: number };
+
+type TextDraft = { id?: string; x: number; y: number; value: string };
+
+const TOOLS: { tool: Tool; label: string; icon: React.ElementType }[] = [
+  { tool: "select", label: "Select and move", icon: MousePointer2 },
+  { tool: "pan", label: "Pan", icon: Hand },
+  { tool: "rect", label: "Rectangle", icon: Square },
+  { tool: "ellipse", label: "Ellipse", icon: Circle },
+  { tool: "arrow", label: "Arrow", icon: ArrowUpRight },
+  { tool: "text", label: "Text", icon: Type },
+  { tool: "freehand", label: "Pen", icon: Pencil },
+];
+
+const COLORS = ["#111827", "#2563eb", "#dc2626", "#16a34a", "#ea580c", "#7c3aed"];
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 4;
+const STROKE_WIDTH = 2;
+const ARROWHEAD_SIZE = 12;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const arrowheadPoints = (shape: Extract<WhiteboardShape, { type: "arrow" }>) => {
+  const angle = Math.atan2(shape.y2 - shape.y, shape.x2 - shape.x);
+  const wing = (offset: number) =>
+    `${shape.x2 - ARROWHEAD_SIZE * Math.cos(angle + offset)},${shape.y2 - ARROWHEAD_SIZE * Math.sin(angle + offset)}`;
+  return `${shape.x2},${shape.y2} ${wing(Math.PI / 7)} ${wing(-Math.PI / 7)}`;
+};
+
+const renderShape = (shape: WhiteboardShape) => {
+  switch (shape.type) {
+    case "rect":
+      return (
+        <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height}
+          fill="transparent" stroke={shape.color} strokeWidth={STROKE_WIDTH} />
+      );
+    case "ellipse":
+      return (
+        <ellipse cx={shape.x + shape.width / 2} cy={shape.y + shape.height / 2} rx={shape.width / 2} ry={shape.height / 2}
+          fill="transparent" stroke={shape.color} strokeWidth={STROKE_WIDTH} />
+      );
+    case "arrow":
+      return (
+        <>
+          {/* A wide invisible stroke makes thin lines easy to grab. */}
+          <line x1={shape.x} y1={shape.y} x2={shape.x2} y2={shape.y2} stroke="transparent" strokeWidth={12} />
+          <line x1={shape.x} y1={shape.y} x2={shape.x2} y2={shape.y2} stroke={shape.color} strokeWidth={STROKE_WIDTH} />
+          <polygon points={arrowheadPoints(shape)} fill={shape.color} />
+        </>
+      );
+    case "text":
+      return (
+        <text x={shape.x} y={shape.y} fill={shape.color} fontSize={TEXT_FONT_SIZE} fontFamily="sans-serif">
+          {shape.text}
+        </text>
+      );
+    case "freehand": {
+      const points = shape.points.reduce<string[]>(
+        (acc, value, index) => (index % 2 === 0 ? [...acc, `${value},${shape.points[index + 1]}`] : acc),
+        []
+      ).join(" ");
+      return (
+        <>
+          <polyline points={points} fill="none" stroke="transparent" strokeWidth={12} />
+          <polyline points={points} fill="none" stroke={shape.color} strokeWidth={STROKE_WIDTH}
+            strokeLinecap="round" strokeLinejoin="round" />
+        </>
+      );
+    }
+  }
+};
+
+const Whiteboard: React.FC<WhiteboardProps> = ({ session, roomId }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [shapes, setShapes] = useState<WhiteboardShape[]>([]);
+  const [tool, setTool] = useState<Tool>("select");
+  const [color, setColor] = useState(COLORS[0]);
+  const [viewport, setViewport] = useState({ x: 0, y: 0, zoom: 1 });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [textDraft, setTextDraft] = useState<TextDraft | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const doc = session?.doc;
+
+  useEffect(() => {
+    if (!doc) return;
+
+    const map = getWhiteboardShapes(doc);
+    const syncShapes = () => setShapes(readShapes(doc));
+
+    syncShapes();
+    map.observe(syncShapes);
+    return () => map.unobserve(syncShapes);
+  }, [doc]);
+
+  // React registers wheel listeners as passive, so zooming needs a native one
+  // to keep the page from scrolling at the same time.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const cursorX = e.clientX - rect.left;
+      const cursorY = e.clientY - rect.top;
+
+      // Zooms around the cursor, so the point under it stays put.
+      setViewport((prev) => {
+        const zoom = clampZoom(prev.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1));
+        return {
+          zoom,
+          x: cursorX - ((cursorX - prev.x) / prev.zoom) * zoom,
+          y: cursorY - ((cursorY - prev.y) / prev.zoom) * zoom,
+        };
+      });
+    };
+
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  useEffect(() => {
+    if (!doc || !selectedId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, [contenteditable=true], .monaco-editor")) return;
+
+      if (e.key === "Delete" || e.key === "Backspace") {
+        getWhiteboardShapes(doc).delete(selectedId);
+        setSelectedId(null);
+      } else if (e.key === "Escape") {
+        setSelectedId(null);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [doc, selectedId]);
+
+  const toWorld = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left - viewport.x) / viewport.zoom,
+      y: (clientY - rect.top - viewport.y) / viewport.zoom,
+    };
+  };
+
+  const commitTextDraft = () => {
+    if (!doc || !textDraft) return;
+
+    const map = getWhiteboardShapes(doc);
+    const existing = textDraft.id ? readShape(doc, textDraft.id) : null;
+    const shape: WhiteboardShape = existing?.type === "text"
+      ? { ...existing, text: textDraft.value }
+      : { id: uuidv4(), type: "text", x: textDraft.x, y: textDraft.y, text: textDraft.value, color, createdAt: Date.now() };
+
+    if (isEmptyShape(shape)) {
+      map.delete(shape.id);
+    } else {
+      map.set(shape.id, shape);
+    }
+    setTextDraft(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!doc || textDraft) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toWorld(e.clientX, e.clientY);
+    const shapeId = (e.target as Element).closest("[data-shape-id]")?.getAttribute("data-shape-id");
+
+    if (tool === "select" && shapeId) {
+      setSelectedId(shapeId);
+      dragRef.current = { mode: "move", id: shapeId, lastX: point.x, lastY: point.y };
+      return;
+    }
+    // Dragging empty space with the select tool, or with the middle button, pans.
+    if (tool === "pan" || tool === "select" || e.button === 1) {
+      setSelectedId(null);
+      dragRef.current = { mode: "pan", lastX: e.clientX, lastY: e.clientY };
+      return;
+    }
+    if (tool === "text") {
+      setTextDraft({ x: point.x, y: point.y, value: "" });
+      return;
+    }
+
+    const base = { id: uuidv4(), color, createdAt: Date.now() };
+    const shape: WhiteboardShape =
+      tool === "arrow"
+        ? { ...base, type: "arrow", x: point.x, y: point.y, x2: point.x, y2: point.y }
+        : tool === "freehand"
+          ? { ...base, type: "freehand", points: [point.x, point.y] }
+          : { ...base, type: tool, x: point.x, y: point.y, width: 0, height: 0 };
+
+    getWhiteboardShapes(doc).set(shape.id, shape);
+    dragRef.current = { mode: "create", id: shape.id, startX: point.x, startY: point.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!doc || !drag) return;
+
+    if (drag.mode === "pan") {
+      const dx = e.clientX - drag.lastX;
+      const dy = e.clientY - drag.lastY;
+      dragRef.current = { ...drag, lastX: e.clientX, lastY: e.clientY };
+      setViewport((prev) => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+      return;
+    }
+
+    const map = getWhiteboardShapes(doc);
+    const shape = readShape(doc, drag.id);
+    if (!shape) return;
+    const point = toWorld(e.clientX, e.clientY);
+
+    if (drag.mode === "move") {
+      map.set(drag.id, moveShape(shape, point.x - drag.lastX, point.y - drag.lastY));
+      dragRef.current = { ...drag, lastX: point.x, lastY: point.y };
+      return;
+    }
+
+    switch (shape.type) {
+      case "rect":
+      case "ellipse":
+        map.set(drag.id, { ...shape, width: point.x - drag.startX, height: point.y - drag.startY });
+        break;
+      case "arrow":
+        map.set(drag.id, { ...shape, x2: point.x, y2: point.y });
+        break;
+      case "freehand":
+        map.set(drag.id, { ...shape, points: [...shape.points, point.x, point.y] });
+        break;
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!doc || drag?.mode !== "create") return;
+
+    const map = getWhiteboardShapes(doc);
+    const shape = readShape(doc, drag.id);
+    if (!shape) return;
+
+    // A click without a drag leaves nothing behind.
+    if (isEmptyShape(shape)) {
+      map.delete(drag.id);
+    } else {
+      map.set(drag.id, normalizeShape(shape));
+    }
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const shapeId = (e.target as Element).closest("[data-shape-id]")?.getAttribute("data-shape-id");
+    const shape = shapes.find((item) => item.id === shapeId);
+    if (shape?.type === "text") {
+      setTextDraft({ id: shape.id, x: shape.x, y: shape.y, value: shape.text });
+    }
+  };
+
+  const zoomBy = (factor: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const centerX = rect.width / 2;
+    const centerY = rect.height / 2;
+    setViewport((prev) => {
+      const zoom = clampZoom(prev.zoom * factor);
+      return {
+        zoom,
+        x: centerX - ((centerX - prev.x) / prev.zoom) * zoom,
+        y: centerY - ((centerY - prev.y) / prev.zoom) * zoom,
+      };
+    });
+  };
+
+  const handleClear = () => {
+    if (doc && window.confirm("Clear the whiteboard for everyone in the room?")) {
+      clearWhiteboard(doc);
+      setSelectedId(null);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!svgRef.current) return;
+
+    setExporting(true);
+    try {
+      const image = await exportWhiteboardPng(svgRef.current, shapes);
+      await axios.post(`${BASE_URL}/interviews/${roomId}/whiteboard-exports`, image, {
+        headers: { "Content-Type": "image/png" },
+        withCredentials: true,
+      });
+      toast.success("Whiteboard image saved to the interview.");
+    } catch (error) {
+      console.error("Error exporting whiteboard:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export the whiteboard.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const selectedShape = shapes.find((shape) => shape.id === selectedId);
+  const selectionBounds = selectedShape ? shapeBounds(selectedShape) : null;
+
+  return (
+    <div className="flex flex-col h-full gap-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {TOOLS.map(({ tool: item, label, icon: Icon }) => (
+          <button
+            key={item}
+            onClick={() => setTool(item)}
+            title={label}
+            className={`p-1.5 border rounded ${tool === item ? "bg-gray-200" : "bg-white hover:bg-gray-100"}`}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <div className="flex items-center gap-1 px-2">
+          {COLORS.map((swatch) => (
+            <button
+              key={swatch}
+              onClick={() => setColor(swatch)}
+              title={swatch}
+              className={`w-5 h-5 rounded-full border-2 ${color === swatch ? "border-gray-500" : "border-transparent"}`}
+              style={{ backgroundColor: swatch }}
+            />
+          ))}
+        </div>
+        <button onClick={() => zoomBy(1 / 1.2)} title="Zoom out" className="p-1.5 bg-white border rounded hover:bg-gray-100">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setViewport({ x: 0, y: 0, zoom: 1 })}
+          title="Reset view"
+          className="px-2 py-1 text-sm bg-white border rounded hover:bg-gray-100"
+        >
+          {Math.round(viewport.zoom * 100)}%
+        </button>
+        <button onClick={() => zoomBy(1.2)} title="Zoom in" className="p-1.5 bg-white border rounded hover:bg-gray-100">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={handleClear} title="Clear board" className="ml-auto p-1.5 bg-white border rounded hover:bg-gray-100">
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={exporting || shapes.length === 0}
+          className="flex items-center gap-1 px-3 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          <ImageDown className="w-4 h-4" />
+          {exporting ? "Saving..." : "Save image"}
+        </button>
+      </div>
+      <div className="relative flex-grow min-h-0 overflow-hidden bg-white border rounded-md">
+        <svg
+          ref={svgRef}
+          className={`w-full h-full touch-none ${tool === "pan" ? "cursor-grab" : tool === "select" ? "cursor-default" : "cursor-crosshair"}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={handleDoubleClick}
+        >
+          <g data-viewport transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.zoom})`}>
+            {shapes.map((shape) => (
+              <g key={shape.id} data-shape-id={shape.id} className={tool === "select" ? "cursor-move" : undefined}>
+                {renderShape(shape)}
+              </g>
+            ))}
+            {selectionBounds && (
+              <rect
+                data-selection
+                x={selectionBounds.minX - 4}
+                y={selectionBounds.minY - 4}
+                width={selectionBounds.maxX - selectionBounds.minX + 8}
+                height={selectionBounds.maxY - selectionBounds.minY + 8}
+                fill="none"
+                stroke="#2563eb"
+                strokeDasharray="4 4"
+                pointerEvents="none"
+              />
+            )}
+          </g>
+        </svg>
+        {textDraft && (
+          <input
+            autoFocus
+            value={textDraft.value}
+            onChange={(e) => setTextDraft({ ...textDraft, value: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitTextDraft();
+              if (e.key === "Escape") setTextDraft(null);
+            }}
+            onBlur={commitTextDraft}
+            className="absolute px-1 bg-white border rounded outline-none"
+            style={{
+              left: textDraft.x * viewport.zoom + viewport.x,
+              top: (textDraft.y - TEXT_FONT_SIZE) * viewport.zoom + viewport.y,
+              fontSize: TEXT_FONT_SIZE * viewport.zoom,
+              color,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Whiteboard;
@@ -0,0 +1,334 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Socket } from "socket.io-client";
+import { v4 as uuidv4 } from "uuid";
+
+export type CallParticipant = {
+  // Chosen by each client for the length of the call and kept across reconnects.
+  peerId: string;
+  name: string;
+  role: string;
+  // Known when the participant is logged in; used to find them on the interview record.
+  email: string | null;
+  micOn: boolean;
+  cameraOn: boolean;
+  sharingScreen: boolean;
+};
+
+export type MediaState = Pick<CallParticipant, "micOn" | "cameraOn" | "sharingScreen">;
+
+export type PeerConnectionStatus = "connecting" | "connected" | "reconnecting";
+
+export type RemotePeer = CallParticipant & {
+  stream: MediaStream | null;
+  status: PeerConnectionStatus;
+};
+
+type PeerState = {
+  pc: RTCPeerConnection;
+  // The polite side rolls back its own offer when both offer at once.
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  restartTimer: ReturnType<typeof setTimeout> | undefined;
+  // Carries the camera or the shared screen; null until there is video to send.
+  videoSender: RTCRtpSender | null;
+};
+
+// "disconnected" often recovers on its own, so an ICE restart waits this long first.
+const ICE_DISCONNECTED_GRACE_MS = 3000;
+
+const toStatus = (pc: RTCPeerConnection): PeerConnectionStatus => {
+  switch (pc.connectionState) {
+    case "connected":
+      return "connected";
+    case "disconnected":
+    case "failed":
+      return "reconnecting";
+    default:
+      return "connecting";
+  }
+};
+
+// One peer connection per other participant, negotiated with the "perfect
+// negotiation" pattern: either side may offer at any time and collisions are
+// settled by the polite side giving way. Newcomers are polite towards the
+// participants already in the call, who are impolite towards them.
+// A shared screen replaces the camera on the existing video sender, so
+// starting and stopping it needs no renegotiation; neither does switching to
+// another camera or microphone.
+// Network drops are survived rather than ending the call: the signaling socket
+// reconnects and rejoins under the same peer id, and connections whose ICE
+// path broke are restarted instead of rebuilt.
+// Nothing connects until the ICE configuration has been fetched; later
+// refreshes of it are applied to the open connections in place.
+// Mic, camera and screen share state go through the signaling server, so the
+// others can tell a muted participant from a broken microphone.
+const useCallPeers = (
+  socket: Socket,
+  roomId: string,
+  configuration: RTCConfiguration | null,
+  localStream: MediaStream | null,
+  screenTrack: MediaStreamTrack | null,
+  media: Pick<MediaState, "micOn" | "cameraOn">
+) => {
+  const [peers, setPeers] = useState<RemotePeer[]>([]);
+  const [signalingLost, setSignalingLost] = useState(false);
+  const connectionsRef = useRef(new Map<string, PeerState>());
+  const screenTrackRef = useRef(screenTrack);
+  const { micOn, cameraOn } = media;
+  const mediaRef = useRef({ micOn, cameraOn });
+  const configurationRef = useRef(configuration);
+  const hasConfiguration = configuration !== null;
+
+  // Runs before the effect below, so the first configuration is in place when it connects.
+  useEffect(() => {
+    if (!configuration || configurationRef.current === configuration) return;
+    configurationRef.current = configuration;
+    connectionsRef.current.forEach(({ pc }) => pc.setConfiguration(configuration));
+  }, [configuration]);
+
+  useEffect(() => {
+    if (!localStream || !hasConfiguration) return;
+
+    const connections = connectionsRef.current;
+    const peerId = uuidv4();
+
+    const updatePeer = (id: string, patch: Partial<RemotePeer>) =>
+      setPeers((prev) => prev.map((peer) => (peer.peerId === id ? { ...peer, ...patch } : peer)));
+
+    const sendDescription = (target: string, description: RTCSessionDescription | null) =>
+      socket.emit("call-description", { roomId, target, description });
+
+    const restartIce = async (state: PeerState) => {
+      clearTimeout(state.restartTimer);
+      try {
+        // An offer the other side never received would hold up the restart.
+        if (state.pc.signalingState === "have-local-offer") {
+          await state.pc.setLocalDescription({ type: "rollback" });
+        }
+        state.pc.restartIce();
+      } catch (error) {
+        console.error("Error restarting ICE:", error);
+      }
+    };
+
+    const disconnect = (id: string) => {
+      const state = connections.get(id);
+      if (!state) return;
+
+      clearTimeout(state.restartTimer);
+      state.pc.close();
+      connections.delete(id);
+      setPeers((prev) => prev.filter((peer) => peer.peerId !== id));
+    };
+
+    const connect = (participant: CallParticipant, polite: boolean) => {
+      disconnect(participant.peerId);
+
+      const pc = new RTCPeerConnection(configurationRef.current || undefined);
+      const state: PeerState = {
+        pc,
+        polite,
+        makingOffer: false,
+        ignoreOffer: false,
+        restartTimer: undefined,
+        videoSender: null,
+      };
+      connections.set(participant.peerId, state);
+      setPeers((prev) => [...prev, { ...participant, stream: null, status: "connecting" }]);
+
+      pc.onnegotiationneeded = async () => {
+        try {
+          state.makingOffer = true;
+          await pc.setLocalDescription();
+          sendDescription(participant.peerId, pc.localDescription);
+        } catch (error) {
+          console.error("Error creating offer:", error);
+        } finally {
+          state.makingOffer = false;
+        }
+      };
+      pc.onicecandidate = ({ candidate }) => {
+        if (candidate) socket.emit("call-candidate", { roomId, target: participant.peerId, candidate });
+      };
+      pc.ontrack = ({ streams }) => updatePeer(participant.peerId, { stream: streams[0] });
+      pc.onconnectionstatechange = () => updatePeer(participant.peerId, { status: toStatus(pc) });
+      pc.oniceconnectionstatechange = () => {
+        if (pc.iceConnectionState === "failed") {
+          restartIce(state);
+        } else if (pc.iceConnectionState === "disconnected") {
+          clearTimeout(state.restartTimer);
+          state.restartTimer = setTimeout(() => {
+            if (pc.iceConnectionState === "disconnected") restartIce(state);
+          }, ICE_DISCONNECTED_GRACE_MS);
+        }
+      };
+
+      localStream.getTracks().forEach((track) => {
+        const sender = pc.addTrack(track, localStream);
+        if (track.kind !== "video") return;
+        state.videoSender = sender;
+        if (screenTrackRef.current) sender.replaceTrack(screenTrackRef.current);
+      });
+      if (screenTrackRef.current && !state.videoSender) {
+        state.videoSender = pc.addTrack(screenTrackRef.current, localStream);
+      }
+    };
+
+    // After a reconnect of our own, connections the others kept for us are
+    // restarted; if they gave up on us meanwhile, everything starts over.
+    const handleRoster = ({ participants, resumed }: { participants: CallParticipant[]; resumed: boolean }) => {
+      const present = new Set(participants.map((participant) => participant.peerId));
+      Array.from(connections.keys())
+        .filter((id) => !resumed || !present.has(id))
+        .forEach(disconnect);
+
+      participants.forEach((participant) => {
+        const state = connections.get(participant.peerId);
+        if (state) {
+          restartIce(state);
+        } else {
+          connect(participant, true);
+        }
+      });
+    };
+    const handlePeerJoined = ({ participant, resumed }: { participant: CallParticipant; resumed: boolean }) => {
+      const state = connections.get(participant.peerId);
+      if (resumed && state) {
+        restartIce(state);
+      } else {
+        connect(participant, false);
+      }
+    };
+    const handlePeerAway = ({ peerId: id }: { peerId: string }) => updatePeer(id, { status: "reconnecting" });
+    const handlePeerLeft = ({ peerId: id }: { peerId: string }) => disconnect(id);
+    const handleMediaState = ({ peerId: id, state }: { peerId: string; state: MediaState }) => updatePeer(id, state);
+
+    const handleDescription = async ({ from, description }: { from: string; description: RTCSessionDescriptionInit }) => {
+      const state = connections.get(from);
+      if (!state) return;
+
+      const { pc } = state;
+      try {
+        const offerCollision = description.type === "offer" && (state.makingOffer || pc.signalingState !== "stable");
+        state.ignoreOffer = !state.polite && offerCollision;
+        if (state.ignoreOffer) return;
+
+        // On the polite side this implicitly rolls back a colliding local offer.
+        await pc.setRemoteDescription(description);
+        if (description.type === "offer") {
+          await pc.setLocalDescription();
+          sendDescription(from, pc.localDescription);
+        }
+      } catch (error) {
+        console.error("Error handling remote description:", error);
+      }
+    };
+
+    const handleCandidate = async ({ from, candidate }: { from: string; candidate: RTCIceCandidateInit }) => {
+      const state = connections.get(from);
+      if (!state) return;
+
+      try {
+        await state.pc.addIceCandidate(candidate);
+      } catch (error) {
+        // Candidates for an offer this side chose to ignore are expected to fail.
+        if (!state.ignoreOffer) console.error("Error adding ICE candidate:", error);
+      }
+    };
+
+    const joinCall = () => {
+      // The server fills in who we are from the socket's login.
+      socket.emit("call-join", {
+        roomId,
+        peerId,
+        media: { ...mediaRef.current, sharingScreen: !!screenTrackRef.current },
+      });
+    };
+    const handleSocketDisconnect = () => setSignalingLost(true);
+    const handleSocketReconnect = () => {
+      setSignalingLost(false);
+      joinCall();
+    };
+
+    socket.on("call-roster", handleRoster);
+    socket.on("call-peer-joined", handlePeerJoined);
+    socket.on("call-peer-away", handlePeerAway);
+    socket.on("call-peer-left", handlePeerLeft);
+    socket.on("call-description", handleDescription);
+    socket.on("call-candidate", handleCandidate);
+    socket.on("call-media-state", handleMediaState);
+    socket.on("disconnect", handleSocketDisconnect);
+    socket.io.on("reconnect", handleSocketReconnect);
+    joinCall();
+
+    return () => {
+      socket.emit("call-leave", { roomId });
+      socket.off("call-roster", handleRoster);
+      socket.off("call-peer-joined", handlePeerJoined);
+      socket.off("call-peer-away", handlePeerAway);
+      socket.off("call-peer-left", handlePeerLeft);
+      socket.off("call-description", handleDescription);
+      socket.off("call-candidate", handleCandidate);
+      socket.off("call-media-state", handleMediaState);
+      socket.off("disconnect", handleSocketDisconnect);
+      socket.io.off("reconnect", handleSocketReconnect);
+      Array.from(connections.keys()).forEach(disconnect);
+      setPeers([]);
+    };
+  }, [socket, roomId, localStream, hasConfiguration]);
+
+  useEffect(() => {
+    if (screenTrackRef.current === screenTrack) return;
+    screenTrackRef.current = screenTrack;
+
+    const videoTrack = screenTrack || localStream?.getVideoTracks()[0] || null;
+    connectionsRef.current.forEach((state) => {
+      if (state.videoSender) {
+        state.videoSender.replaceTrack(videoTrack);
+      } else if (videoTrack && localStream) {
+        // Without a camera there is no video sender to reuse, so the screen is added and negotiated.
+        state.videoSender = state.pc.addTrack(videoTrack, localStream);
+      }
+    });
+    socket.emit("call-media-state", { roomId, state: { sharingScreen: !!screenTrack } });
+  }, [socket, roomId, localStream, screenTrack]);
+
+  useEffect(() => {
+    if (mediaRef.current.micOn === micOn && mediaRef.current.cameraOn === cameraOn) return;
+    mediaRef.current = { micOn, cameraOn };
+    socket.emit("call-media-state", { roomId, state: { micOn, cameraOn } });
+  }, [socket, roomId, micOn, cameraOn]);
+
+  // Follows a camera or microphone switch that already swapped the track in
+  // the local stream. A shared screen keeps the video sender until sharing
+  // stops, which then picks up the new camera from the stream.
+  const replaceSenderTrack = useCallback(
+    (previous: MediaStreamTrack | null, track: MediaStreamTrack) => {
+      if (!localStream) return;
+      if (track.kind === "video" && screenTrackRef.current) return;
+
+      connectionsRef.current.forEach((state) => {
+        const sender =
+          track.kind === "video"
+            ? state.videoSender
+            : previous && state.pc.getSenders().find((item) => item.track === previous);
+        if (sender) {
+          sender.replaceTrack(track);
+        } else {
+          // The device is new to the call, so it has to be negotiated.
+          const added = state.pc.addTrack(track, localStream);
+          if (track.kind === "video") state.videoSender = added;
+        }
+      });
+    },
+    [localStream]
+  );
+
+  // For reading stats; the connection object stays the same across ICE restarts.
+  const getPeerConnection = useCallback((peerId: string) => connectionsRef.current.get(peerId)?.pc || null, []);
+
+  return { peers, signalingLost, getPeerConnection, replaceSenderTrack };
+};
+
+export default useCallPeers;
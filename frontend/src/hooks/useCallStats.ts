@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import axios from "axios";
+import { BASE_URL } from "../constants/index";
+import { CallStatsSample, StatsCounters, readStats, describeDegradation, summarizeSamples } from "../lib/callStats";
+import { RemotePeer } from "./useCallPeers";
+
+const POLL_INTERVAL_MS = 2000;
+const UPLOAD_INTERVAL_MS = 60 * 1000;
+// A single bad sample is a hiccup; this many in a row is worth a warning.
+const SUSTAINED_SAMPLES = 3;
+
+type PeerRecord = {
+  email: string | null;
+  counters: StatsCounters | null;
+  // Samples since the last upload.
+  samples: CallStatsSample[];
+  degradedStreak: number;
+};
+
+// Polls every peer connection for quality stats. The latest sample per peer
+// feeds the overlay, peers degraded for several polls running are flagged,
+// and once a minute a summary per peer is stored on the interview.
+const useCallStats = (
+  roomId: string,
+  peers: RemotePeer[],
+  getPeerConnection: (peerId: string) => RTCPeerConnection | null
+) => {
+  const [stats, setStats] = useState<Record<string, CallStatsSample>>({});
+  const [degraded, setDegraded] = useState<Record<string, string[]>>({});
+  const peersRef = useRef(peers);
+  peersRef.current = peers;
+
+  useEffect(() => {
+    const records = new Map<string, PeerRecord>();
+    let cancelled = false;
+
+    const poll = async () => {
+      const nextStats: Record<string, CallStatsSample> = {};
+      const nextDegraded: Record<string, string[]> = {};
+
+      await Promise.all(
+        peersRef.current.map(async (peer) => {
+          const pc = getPeerConnection(peer.peerId);
+          if (!pc || pc.connectionState !== "connected") return;
+
+          const record = records.get(peer.peerId) || { email: peer.email, counters: null, samples: [], degradedStreak: 0 };
+          records.set(peer.peerId, record);
+          try {
+            const { sample, counters } = readStats(await pc.getStats(), record.counters);
+            record.counters = counters;
+            record.samples.push(sample);
+            nextStats[peer.peerId] = sample;
+
+            const problems = describeDegradation(sample);
+            record.degradedStreak = problems.length > 0 ? record.degradedStreak + 1 : 0;
+            if (record.degradedStreak >= SUSTAINED_SAMPLES) nextDegraded[peer.peerId] = problems;
+          } catch (error) {
+            console.error("Error reading call stats:", error);
+          }
+        })
+      );
+
+      if (cancelled) return;
+      setStats(nextStats);
+      setDegraded(nextDegraded);
+    };
+
+    const upload = () => {
+      const reports = Array.from(records.values())
+        .filter((record) => record.samples.length > 0)
+        .map((record) => summarizeSamples(record.email, record.samples.splice(0)));
+      if (reports.length === 0) return;
+
+      axios
+        .post(`${BASE_URL}/interviews/${roomId}/call-quality`, { reports }, { withCredentials: true })
+        .catch((error) => console.error("Error saving call quality:", error));
+    };
+
+    const pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+    const uploadTimer = setInterval(upload, UPLOAD_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(pollTimer);
+      clearInterval(uploadTimer);
+      // The last partial window is worth keeping too, e.g. when the call ended badly.
+      upload();
+    };
+  }, [roomId, getPeerConnection]);
+
+  return { stats, degraded };
+};
+
+export default useCallStats;
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+import axios from "axios";
+import { BASE_URL } from "../constants/index";
+import { ChatMessage } from "../lib/chat";
+
+const SEND_TIMEOUT_MS = 10000;
+
+// The same message can come in twice, e.g. relayed while the history was loading.
+const withMessage = (messages: ChatMessage[], message: ChatMessage) =>
+  messages.some((item) => item._id === message._id) ? messages : [...messages, message];
+
+// Messages go through the signaling server, which stores them on the interview
+// before passing them on, so the chat survives reloads and ends up in the
+// interview record. History is loaded once the room has been joined.
+const useChat = (socket: Socket, roomId: string, joined: boolean) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+
+  useEffect(() => {
+    if (!joined) return;
+
+    let cancelled = false;
+    axios
+      .get(`${BASE_URL}/interviews/${roomId}/chat-messages`, { withCredentials: true })
+      .then((res) => {
+        if (cancelled) return;
+        // Anything relayed while the history was loading is kept.
+        setMessages((prev) => {
+          const loaded = res.data.messages as ChatMessage[];
+          const ids = new Set(loaded.map((message) => message._id));
+          return [...loaded, ...prev.filter((message) => !ids.has(message._id))];
+        });
+      })
+      .catch((error) => console.error("Error loading chat:", error));
+
+    const handleMessage = ({ message }: { message: ChatMessage }) => setMessages((prev) => withMessage(prev, message));
+    socket.on("chat-message", handleMessage);
+    return () => {
+      cancelled = true;
+      socket.off("chat-message", handleMessage);
+    };
+  }, [socket, roomId, joined]);
+
+  const send = useCallback(
+    async (text: string) => {
+      const reply: { message?: ChatMessage; error?: string } = await socket
+        .timeout(SEND_TIMEOUT_MS)
+        .emitWithAck("chat-message", { roomId, text });
+      const { message } = reply;
+      if (!message) throw new Error(reply.error || "Message not sent.");
+      setMessages((prev) => withMessage(prev, message));
+    },
+    [socket, roomId]
+  );
+
+  return { messages, send };
+};
+
+export default useChat;
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+import axios from "axios";
+import { BASE_URL } from "../constants/index";
+import { WorkspaceFile } from "../lib/workspace";
+
+export type CodeSnapshot = {
+  _id: string;
+  files: WorkspaceFile[];
+  entryFile: string;
+  language: string;
+  trigger: "auto" | "manual";
+  label?: string;
+  createdByName?: string;
+  createdAt: string;
+};
+
+export type NewSnapshot = Pick<CodeSnapshot, "files" | "entryFile" | "language" | "trigger" | "label">;
+
+const useCodeSnapshots = (socket: Socket, roomId: string) => {
+  const [snapshots, setSnapshots] = useState<CodeSnapshot[]>([]);
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      const res = await axios.get(`${BASE_URL}/interviews/${roomId}/snapshots`, {
+        withCredentials: true,
+      });
+      setSnapshots(res.data.snapshots);
+    } catch (error) {
+      console.error("Error fetching snapshots:", error);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    fetchSnapshots();
+    socket.on("snapshots-changed", fetchSnapshots);
+    return () => {
+      socket.off("snapshots-changed", fetchSnapshots);
+    };
+  }, [socket, fetchSnapshots]);
+
+  const saveSnapshot = useCallback(
+    async (snapshot: NewSnapshot) => {
+      try {
+        const res = await axios.post(`${BASE_URL}/interviews/${roomId}/snapshots`, snapshot, {
+          withCredentials: true,
+        });
+        setSnapshots((prev) => [...prev, res.data.snapshot]);
+        socket.emit("snapshots-changed", { roomId });
+        return res.data.snapshot as CodeSnapshot;
+      } catch (error) {
+        console.error("Error saving snapshot:", error);
+        return null;
+      }
+    },
+    [socket, roomId]
+  );
+
+  return { snapshots, saveSnapshot };
+};
+
+export default useCodeSnapshots;
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+import * as Y from "yjs";
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from "y-protocols/awareness";
+
+const REMOTE_ORIGIN = "remote";
+
+// Matches the text the signaling server seeds new room documents with.
+export const DEFAULT_CODE = "// Start coding...";
+
+export type Participant = {
+  name: string;
+  role: string;
+  color: string;
+};
+
+const CURSOR_COLORS = ["#2563eb", "#db2777", "#16a34a", "#ea580c", "#7c3aed", "#0891b2"];
+
+export const pickCursorColor = (seed: string) => {
+  let hash = 0;
+  for (const char of seed) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+export type CollaborativeSession = {
+  doc: Y.Doc;
+  awareness: Awareness;
+};
+
+type AwarenessChanges = { added: number[]; updated: number[]; removed: number[] };
+
+const toUint8Array = (data: ArrayBuffer | Uint8Array) =>
+  data instanceof Uint8Array ? data : new Uint8Array(data);
+
+const useCollaborativeDocument = (socket: Socket, roomId: string, participant: Participant) => {
+  const [session, setSession] = useState<CollaborativeSession | null>(null);
+  // Bumped when the server rejects a local edit; the document is then rebuilt from the room's copy.
+  const [generation, setGeneration] = useState(0);
+  const { name, role, color } = participant;
+
+  useEffect(() => {
+    const ydoc = new Y.Doc();
+
+    const awareness = new Awareness(ydoc);
+    awareness.setLocalStateField("user", { name, role, color });
+
+    const handleLocalUpdate = (update: Uint8Array, origin: unknown) => {
+      if (origin === REMOTE_ORIGIN) return;
+      socket.emit("yjs-update", { roomId, update });
+    };
+
+    const handleRemoteUpdate = ({ update }: { update: ArrayBuffer }) => {
+      Y.applyUpdate(ydoc, toUint8Array(update), REMOTE_ORIGIN);
+    };
+
+    const handleLocalAwareness = ({ added, updated, removed }: AwarenessChanges, origin: unknown) => {
+      if (origin === REMOTE_ORIGIN) return;
+      const changedClients = added.concat(updated, removed);
+      socket.emit("awareness-update", { roomId, update: encodeAwarenessUpdate(awareness, changedClients) });
+    };
+
+    const handleRemoteAwareness = ({ update }: { update: ArrayBuffer }) => {
+      applyAwarenessUpdate(awareness, toUint8Array(update), REMOTE_ORIGIN);
+    };
+
+    const handleAwarenessQuery = () => {
+      socket.emit("awareness-update", { roomId, update: encodeAwarenessUpdate(awareness, [ydoc.clientID]) });
+    };
+
+    // The server answers a sync request with the room state this client is missing,
+    // and gets back whatever this client has that the server has not seen yet.
+    const handleSyncResponse = ({ update, stateVector }: { update: ArrayBuffer; stateVector: ArrayBuffer }) => {
+      Y.applyUpdate(ydoc, toUint8Array(update), REMOTE_ORIGIN);
+      socket.emit("yjs-update", {
+        roomId,
+        update: Y.encodeStateAsUpdate(ydoc, toUint8Array(stateVector)),
+      });
+    };
+
+    const handleResync = () => setGeneration((value) => value + 1);
+
+    // Joining and syncing also runs after the socket reconnects; the exchange of
+    // missing updates both ways merges whatever was typed while offline.
+    // The server checks access before letting the socket in, so syncing waits
+    // until the join is confirmed.
+    const joinRoom = () => socket.emit("join", roomId);
+    const handleRoomJoined = ({ roomId: joinedRoomId }: { roomId: string }) => {
+      if (joinedRoomId !== roomId) return;
+      socket.emit("yjs-sync-request", { roomId, stateVector: Y.encodeStateVector(ydoc) });
+      handleAwarenessQuery();
+    };
+
+    const handleUnload = () => {
+      removeAwarenessStates(awareness, [ydoc.clientID], "window unload");
+    };
+
+    ydoc.on("update", handleLocalUpdate);
+    awareness.on("update", handleLocalAwareness);
+    socket.on("yjs-update", handleRemoteUpdate);
+    socket.on("awareness-update", handleRemoteAwareness);
+    socket.on("awareness-query", handleAwarenessQuery);
+    socket.on("yjs-sync-response", handleSyncResponse);
+    socket.on("yjs-resync", handleResync);
+    socket.on("room-joined", handleRoomJoined);
+    socket.io.on("reconnect", joinRoom);
+
+    joinRoom();
+    window.addEventListener("beforeunload", handleUnload);
+    setSession({ doc: ydoc, awareness });
+
+    return () => {
+      window.removeEventListener("beforeunload", handleUnload);
+      // Tell peers to drop this cursor before the listeners go away.
+      handleUnload();
+      awareness.off("update", handleLocalAwareness);
+      awareness.destroy();
+      ydoc.off("update", handleLocalUpdate);
+      socket.off("yjs-update", handleRemoteUpdate);
+      socket.off("awareness-update", handleRemoteAwareness);
+      socket.off("awareness-query", handleAwarenessQuery);
+      socket.off("yjs-sync-response", handleSyncResponse);
+      socket.off("yjs-resync", handleResync);
+      socket.off("room-joined", handleRoomJoined);
+      socket.io.off("reconnect", joinRoom);
+      ydoc.destroy();
+    };
+  }, [socket, roomId, name, role, color, generation]);
+
+  return session;
+};
+
+export default useCollaborativeDocument;
@@ -0,0 +1,29 @@
+import { useCallback, useState } from "react";
+import { DevicePreferences, loadDevicePreferences, saveDevicePreferences } from "../lib/mediaDevices";
+
+// Device choices of the logged-in user, saved as soon as they change so the
+// setup dialog and the interview room start from the same devices. The user
+// is read on every render, as this lives above the login page and has to
+// pick up whoever logs in.
+const useDevicePreferences = () => {
+  const storedUser = localStorage.getItem("user");
+  const userKey: string = storedUser ? JSON.parse(storedUser).email : "guest";
+  const [state, setState] = useState(() => ({ userKey, preferences: loadDevicePreferences(userKey) }));
+  if (state.userKey !== userKey) {
+    setState({ userKey, preferences: loadDevicePreferences(userKey) });
+  }
+
+  const updatePreferences = useCallback(
+    (patch: DevicePreferences) =>
+      setState((prev) => {
+        const preferences = { ...prev.preferences, ...patch };
+        saveDevicePreferences(prev.userKey, preferences);
+        return { ...prev, preferences };
+      }),
+    []
+  );
+
+  return [state.preferences, updatePreferences] as const;
+};
+
+export default useDevicePreferences;
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+
+// "locked" leaves only the recruiter able to edit code, "frozen" nobody.
+export type EditorMode = "open" | "locked" | "frozen";
+
+export type EditorControl = {
+  mode: EditorMode;
+  changedBy: string | null;
+};
+
+// The signaling server owns the mode and drops code edits it does not allow;
+// this hook mirrors it so the UI can go read-only too.
+const useEditorControl = (socket: Socket, roomId: string) => {
+  const [control, setControl] = useState<EditorControl>({ mode: "open", changedBy: null });
+
+  useEffect(() => {
+    socket.on("editor-control", setControl);
+    return () => {
+      socket.off("editor-control", setControl);
+    };
+  }, [socket]);
+
+  const setMode = useCallback(
+    (mode: EditorMode) => socket.emit("editor-control", { roomId, mode }),
+    [socket, roomId]
+  );
+
+  return { ...control, setMode };
+};
+
+export default useEditorControl;
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+import { toast } from "sonner";
+import useMediaSession from "./useMediaSession";
+
+export type HostControls = {
+  locked: boolean;
+  askToUnmute: (peerId: string) => void;
+  mute: (peerId: string) => void;
+  remove: (peerId: string) => void;
+  setLocked: (locked: boolean) => void;
+};
+
+// Both sides of the host controls: hosts get the actions, while everyone
+// follows the room lock and reacts to being muted or asked to unmute. Nobody
+// is unmuted without their say, so an unmute request only offers a button.
+const useHostControls = (socket: Socket, roomId: string): HostControls => {
+  const { setMicOn } = useMediaSession();
+  const [locked, setLockedState] = useState(false);
+
+  useEffect(() => {
+    const handleLock = ({ locked: value }: { locked: boolean }) => setLockedState(value);
+    const handleAskUnmute = ({ by }: { by: string }) =>
+      toast(`${by} is asking you to unmute.`, { action: { label: "Unmute", onClick: () => setMicOn(true) } });
+    const handleMute = ({ by }: { by: string }) => {
+      setMicOn(false);
+      toast.info(`${by} muted you.`);
+    };
+
+    socket.on("room-lock", handleLock);
+    socket.on("host-ask-unmute", handleAskUnmute);
+    socket.on("host-mute", handleMute);
+    return () => {
+      socket.off("room-lock", handleLock);
+      socket.off("host-ask-unmute", handleAskUnmute);
+      socket.off("host-mute", handleMute);
+    };
+  }, [socket, setMicOn]);
+
+  const askToUnmute = useCallback(
+    (peerId: string) => socket.emit("host-ask-unmute", { roomId, peerId }),
+    [socket, roomId]
+  );
+  const mute = useCallback((peerId: string) => socket.emit("host-mute", { roomId, peerId }), [socket, roomId]);
+  const remove = useCallback((peerId: string) => socket.emit("host-remove", { roomId, peerId }), [socket, roomId]);
+  const setLocked = useCallback(
+    (value: boolean) => socket.emit("room-lock", { roomId, locked: value }),
+    [socket, roomId]
+  );
+
+  return { locked, askToUnmute, mute, remove, setLocked };
+};
+
+export default useHostControls;
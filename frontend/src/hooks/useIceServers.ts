@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { BASE_URL } from "../constants/index";
+
+// Fetched again once this share of the credentials' lifetime has passed.
+const REFRESH_AT = 0.8;
+const RETRY_DELAY_MS = 5000;
+// setTimeout fires at once for anything longer, which would refetch in a loop.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// ICE servers come from the backend's settings, with TURN credentials that
+// expire; the configuration is refreshed before they do.
+const useIceServers = () => {
+  const [configuration, setConfiguration] = useState<RTCConfiguration | null>(null);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const fetchIceServers = async () => {
+      try {
+        const res = await axios.get(`${BASE_URL}/ice-servers`, {
+          withCredentials: true,
+        });
+        if (cancelled) return;
+        setConfiguration({ iceServers: res.data.iceServers });
+        timer = setTimeout(fetchIceServers, Math.min(res.data.ttlSeconds * 1000 * REFRESH_AT, MAX_TIMER_DELAY_MS));
+      } catch (error) {
+        console.error("Error fetching ICE servers:", error);
+        if (!cancelled) timer = setTimeout(fetchIceServers, RETRY_DELAY_MS);
+      }
+    };
+
+    fetchIceServers();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, []);
+
+  return configuration;
+};
+
+export default useIceServers;
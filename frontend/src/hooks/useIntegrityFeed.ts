@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+import axios from "axios";
+import { BASE_URL } from "../constants/index";
+import { IntegrityEvent } from "../lib/integrity";
+
+// The recruiter's view of the candidate's integrity events: what was stored
+// before they joined, then whatever streams in live.
+const useIntegrityFeed = (socket: Socket, roomId: string, enabled: boolean) => {
+  const [events, setEvents] = useState<IntegrityEvent[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Live events can arrive before the stored list does, so both are merged by id.
+    const addEvents = (incoming: IntegrityEvent[]) =>
+      setEvents((prev) => {
+        const known = new Set(prev.map((event) => event._id));
+        return [...prev, ...incoming.filter((event) => !known.has(event._id))].sort(
+          (a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime()
+        );
+      });
+
+    const fetchEvents = async () => {
+      try {
+        const res = await axios.get(`${BASE_URL}/interviews/${roomId}/integrity-events`, {
+          withCredentials: true,
+        });
+        addEvents(res.data.events);
+      } catch (error) {
+        console.error("Error fetching integrity events:", error);
+      }
+    };
+    const handleEvent = ({ event }: { event: IntegrityEvent }) => addEvents([event]);
+
+    fetchEvents();
+    socket.on("integrity-event", handleEvent);
+    return () => {
+      socket.off("integrity-event", handleEvent);
+    };
+  }, [socket, roomId, enabled]);
+
+  return events;
+};
+
+export default useIntegrityFeed;
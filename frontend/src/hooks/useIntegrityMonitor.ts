@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef } from "react";
+import axios from "axios";
+import { BASE_URL } from "../constants/index";
+import { IntegrityEvent, LARGE_PASTE_CHARS, PASTE_EXCERPT_CHARS } from "../lib/integrity";
+
+const RETRY_INTERVAL_MS = 10 * 1000;
+// The most events the server accepts in one request.
+const MAX_BATCH = 50;
+const DEVTOOLS_POLL_MS = 1000;
+// Docked devtools shrink the page well past any browser chrome. Undocked ones
+// cannot be seen from the page at all, so this is only a heuristic.
+const DEVTOOLS_SIZE_GAP = 160;
+
+type NewIntegrityEvent = Omit<IntegrityEvent, "_id" | "occurredAt">;
+
+// Runs in the candidate's browser. Events are stored on the interview, and the
+// server streams what it stored to the recruiter, so the live feed and the
+// record agree.
+const useIntegrityMonitor = (roomId: string, enabled: boolean) => {
+  const queueRef = useRef<IntegrityEvent[]>([]);
+  const sendingRef = useRef(false);
+
+  const flush = useCallback(async () => {
+    if (sendingRef.current || queueRef.current.length === 0) return;
+
+    sendingRef.current = true;
+    const batch = queueRef.current.splice(0, MAX_BATCH);
+    let sent = false;
+    try {
+      await axios.post(`${BASE_URL}/interviews/${roomId}/integrity-events`, { events: batch }, { withCredentials: true });
+      sent = true;
+    } catch (error) {
+      // Kept for the retry timer rather than retried straight away.
+      console.error("Error saving integrity events:", error);
+      queueRef.current.unshift(...batch);
+    } finally {
+      sendingRef.current = false;
+    }
+    // Events recorded while this batch was in flight go out next.
+    if (sent && queueRef.current.length > 0) flush();
+  }, [roomId]);
+
+  const record = useCallback(
+    (event: NewIntegrityEvent) => {
+      if (!enabled) return;
+      queueRef.current.push({ ...event, occurredAt: new Date().toISOString() });
+      flush();
+    },
+    [enabled, flush]
+  );
+
+  const reportPaste = useCallback(
+    (text: string) => {
+      if (text.length < LARGE_PASTE_CHARS) return;
+      record({ type: "paste", pastedLength: text.length, pastedExcerpt: text.slice(0, PASTE_EXCERPT_CHARS) });
+    },
+    [record]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let blurredAt: number | null = null;
+    let hiddenAt: number | null = null;
+    let wasFullscreen = !!document.fullscreenElement;
+    let devtoolsOpen = false;
+
+    const handleBlur = () => {
+      // Focus moving into an iframe on the page, like the live preview, also blurs the window.
+      setTimeout(() => {
+        if (document.activeElement instanceof HTMLIFrameElement) return;
+        blurredAt = Date.now();
+        record({ type: "window-blur" });
+      });
+    };
+    const handleFocus = () => {
+      if (blurredAt === null) return;
+      record({ type: "window-focus", durationMs: Date.now() - blurredAt });
+      blurredAt = null;
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        hiddenAt = Date.now();
+        record({ type: "tab-hidden" });
+      } else if (hiddenAt !== null) {
+        record({ type: "tab-visible", durationMs: Date.now() - hiddenAt });
+        hiddenAt = null;
+      }
+    };
+    const handleFullscreenChange = () => {
+      if (wasFullscreen && !document.fullscreenElement) record({ type: "fullscreen-exit" });
+      wasFullscreen = !!document.fullscreenElement;
+    };
+
+    const devtoolsTimer = setInterval(() => {
+      const open =
+        window.outerWidth - window.innerWidth > DEVTOOLS_SIZE_GAP ||
+        window.outerHeight - window.innerHeight > DEVTOOLS_SIZE_GAP;
+      if (open && !devtoolsOpen) record({ type: "devtools-open" });
+      devtoolsOpen = open;
+    }, DEVTOOLS_POLL_MS);
+    const retryTimer = setInterval(flush, RETRY_INTERVAL_MS);
+
+    window.addEventListener("blur", handleBlur);
+    window.addEventListener("focus", handleFocus);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => {
+      clearInterval(devtoolsTimer);
+      clearInterval(retryTimer);
+      window.removeEventListener("blur", handleBlur);
+      window.removeEventListener("focus", handleFocus);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+    };
+  }, [enabled, record, flush]);
+
+  return { reportPaste };
+};
+
+export default useIntegrityMonitor;
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { BASE_URL } from "../constants/index";
+
+export type InterviewParticipant = {
+  email: string;
+  name: string;
+  role: "candidate" | "interviewer" | "panelist";
+};
+
+export const PARTICIPANT_ROLE_LABELS: Record<InterviewParticipant["role"], string> = {
+  candidate: "Candidate",
+  interviewer: "Interviewer",
+  panelist: "Panelist",
+};
+
+// The people the interview was scheduled with, as recorded on the interview.
+const useInterviewParticipants = (roomId: string) => {
+  const [participants, setParticipants] = useState<InterviewParticipant[]>([]);
+
+  useEffect(() => {
+    const fetchParticipants = async () => {
+      try {
+        const res = await axios.get(`${BASE_URL}/interviews/${roomId}/participants`, {
+          withCredentials: true,
+        });
+        setParticipants(res.data.participants);
+      } catch (error) {
+        console.error("Error fetching interview participants:", error);
+      }
+    };
+
+    fetchParticipants();
+  }, [roomId]);
+
+  return participants;
+};
+
+export default useInterviewParticipants;
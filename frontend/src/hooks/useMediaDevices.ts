@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+
+export type MediaDeviceLists = {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  speakers: MediaDeviceInfo[];
+};
+
+// Devices come without labels until camera access is granted, so the lists
+// are read again whenever a new stream is passed in, and on plugging devices
+// in or out.
+const useMediaDevices = (stream: MediaStream | null) => {
+  const [devices, setDevices] = useState<MediaDeviceLists>({ cameras: [], microphones: [], speakers: [] });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const enumerate = () =>
+      navigator.mediaDevices
+        .enumerateDevices()
+        .then((list) => {
+          if (cancelled) return;
+          setDevices({
+            cameras: list.filter((device) => device.kind === "videoinput"),
+            microphones: list.filter((device) => device.kind === "audioinput"),
+            speakers: list.filter((device) => device.kind === "audiooutput"),
+          });
+        })
+        .catch((error) => console.error("Error listing media devices:", error));
+
+    enumerate();
+    navigator.mediaDevices.addEventListener("devicechange", enumerate);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener("devicechange", enumerate);
+    };
+  }, [stream]);
+
+  return devices;
+};
+
+export default useMediaDevices;
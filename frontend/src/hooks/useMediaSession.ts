@@ -0,0 +1,40 @@
+import { createContext, useContext, useEffect } from "react";
+import { DevicePreferences } from "../lib/mediaDevices";
+
+// Called after a camera or microphone switch has swapped `previous` for
+// `track` in the session stream, so peer connections can follow.
+export type TrackReplacedListener = (previous: MediaStreamTrack | null, track: MediaStreamTrack) => void;
+
+export type MediaSession = {
+  // The one local camera and microphone stream of this tab. It stays the same
+  // object across device switches and mute toggles; null while nobody uses it.
+  stream: MediaStream | null;
+  cameraOn: boolean;
+  micOn: boolean;
+  setCameraOn: React.Dispatch<React.SetStateAction<boolean>>;
+  setMicOn: React.Dispatch<React.SetStateAction<boolean>>;
+  devicePreferences: DevicePreferences;
+  setDevicePreferences: (patch: DevicePreferences) => void;
+  // Keeps the stream open until the returned function is called.
+  retain: () => () => void;
+  onTrackReplaced: (listener: TrackReplacedListener) => () => void;
+};
+
+export const MediaSessionContext = createContext<MediaSession | null>(null);
+
+const useMediaSession = () => {
+  const session = useContext(MediaSessionContext);
+  if (!session) throw new Error("useMediaSession must be used inside a MediaSessionProvider.");
+  return session;
+};
+
+// For components that show or send the local stream: it is opened when the
+// first of them mounts and closed a little after the last one goes away.
+export const useLocalStream = () => {
+  const session = useMediaSession();
+  const { retain } = session;
+  useEffect(() => retain(), [retain]);
+  return session;
+};
+
+export default useMediaSession;
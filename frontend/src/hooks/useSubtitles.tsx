@@ -1,22 +1,23 @@
 import { useEffect } from "react";
-import { io } from "socket.io-client";
-
-const socket = io("http://localhost:8013");
+import socket from "../lib/socket";
 
+// Rides on the room's shared socket, which has already joined the room.
 const useSubtitles = (roomId: string, setSubtitle: (text: string) => void) => {
   useEffect(() => {
-    socket.emit("join", roomId);
-
-    socket.on("subtitle", (text: string) => {
+    const handleSubtitle = (text: string) => {
       setSubtitle(text);
-    });
+    };
+    socket.on("subtitle", handleSubtitle);
 
     const SpeechRecognition =
       (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
 
     if (!SpeechRecognition) {
       console.warn("SpeechRecognition API not supported");
-      return;
+      // Peers' subtitles still come in without it.
+      return () => {
+        socket.off("subtitle", handleSubtitle);
+      };
     }
 
     const recognition = new SpeechRecognition();
@@ -55,7 +56,7 @@ const useSubtitles = (roomId: string, setSubtitle: (text: string) => void) => {
 
     return () => {
       recognition.stop();
-      socket.off("subtitle");
+      socket.off("subtitle", handleSubtitle);
       if (clearTimer) clearTimeout(clearTimer);
     };
   }, [roomId, setSubtitle]);
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+
+export type WaitingEntry = {
+  userId: string;
+  name: string;
+  email: string;
+  since: string;
+};
+
+// "joining" until the server answers the join, "waiting" while a candidate is
+// held in the lobby for a host to let them in.
+export type RoomEntryStatus = "joining" | "waiting" | "joined";
+
+// Mirrors the lobby kept by the signaling server. Only hosts are sent the
+// waiting list, and only hosts may admit or turn people away.
+const useWaitingRoom = (socket: Socket, roomId: string) => {
+  const [status, setStatus] = useState<RoomEntryStatus>("joining");
+  const [waiting, setWaiting] = useState<WaitingEntry[]>([]);
+
+  useEffect(() => {
+    const handleEntered = ({ roomId: id }: { roomId: string }) => {
+      if (id === roomId) setStatus("waiting");
+    };
+    const handleJoined = ({ roomId: id }: { roomId: string }) => {
+      if (id === roomId) setStatus("joined");
+    };
+    const handleList = ({ waiting: list }: { waiting: WaitingEntry[] }) => setWaiting(list);
+
+    socket.on("waiting-room-entered", handleEntered);
+    socket.on("room-joined", handleJoined);
+    socket.on("waiting-room-list", handleList);
+    return () => {
+      socket.off("waiting-room-entered", handleEntered);
+      socket.off("room-joined", handleJoined);
+      socket.off("waiting-room-list", handleList);
+    };
+  }, [socket, roomId]);
+
+  const admit = useCallback(
+    (userId: string) => socket.emit("waiting-room-admit", { roomId, userId }),
+    [socket, roomId]
+  );
+  const deny = useCallback(
+    (userId: string) => socket.emit("waiting-room-deny", { roomId, userId }),
+    [socket, roomId]
+  );
+
+  return { status, waiting, admit, deny };
+};
+
+export default useWaitingRoom;
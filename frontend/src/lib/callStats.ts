@@ -0,0 +1,123 @@
+// Call quality as measured on one peer connection, read from getStats() on a
+// fixed interval. Values are null until the browser has reported them.
+export type CallStatsSample = {
+  at: number;
+  bitrateInKbps: number | null;
+  bitrateOutKbps: number | null;
+  packetLossPercent: number | null;
+  rttMs: number | null;
+  jitterMs: number | null;
+  resolution: string | null;
+};
+
+// getStats() reports running totals, so rates come from the change since the last poll.
+export type StatsCounters = {
+  at: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+};
+
+// One summary per remote participant and upload window, as stored on the interview.
+export type CallQualityReport = {
+  remoteEmail: string | null;
+  windowStart: string;
+  windowEnd: string;
+  sampleCount: number;
+  avgBitrateInKbps?: number;
+  avgBitrateOutKbps?: number;
+  avgPacketLossPercent?: number;
+  maxPacketLossPercent?: number;
+  avgRttMs?: number;
+  maxRttMs?: number;
+  avgJitterMs?: number;
+  resolution?: string;
+  degradedSamples: number;
+};
+
+// Past these the call is noticeably choppy or laggy.
+const MAX_PACKET_LOSS_PERCENT = 5;
+const MAX_RTT_MS = 400;
+const MAX_JITTER_MS = 50;
+
+export const readStats = (report: RTCStatsReport, previous: StatsCounters | null) => {
+  const counters: StatsCounters = { at: Date.now(), bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 };
+  let rttMs: number | null = null;
+  let jitterMs: number | null = null;
+  let resolution: string | null = null;
+
+  report.forEach((stat) => {
+    if (stat.type === "inbound-rtp") {
+      counters.bytesReceived += stat.bytesReceived || 0;
+      counters.packetsReceived += stat.packetsReceived || 0;
+      counters.packetsLost += stat.packetsLost || 0;
+      // Audio jitter is what people hear as a breaking-up voice.
+      if (stat.kind === "audio" && stat.jitter !== undefined) jitterMs = stat.jitter * 1000;
+      if (stat.kind === "video" && stat.frameWidth) resolution = `${stat.frameWidth}x${stat.frameHeight}`;
+    } else if (stat.type === "outbound-rtp") {
+      counters.bytesSent += stat.bytesSent || 0;
+    } else if (stat.type === "candidate-pair" && stat.nominated && stat.state === "succeeded") {
+      if (stat.currentRoundTripTime !== undefined) rttMs = stat.currentRoundTripTime * 1000;
+    }
+  });
+
+  // Totals can go down, e.g. when a stream is replaced, so no delta is negative.
+  const delta = (current: number, before: number) => Math.max(0, current - before);
+  const elapsedMs = previous ? counters.at - previous.at : 0;
+  const rate = (bytes: number) => (elapsedMs > 0 ? (bytes * 8) / elapsedMs : null);
+  const received = previous ? delta(counters.packetsReceived, previous.packetsReceived) : 0;
+  const lost = previous ? delta(counters.packetsLost, previous.packetsLost) : 0;
+
+  const sample: CallStatsSample = {
+    at: counters.at,
+    bitrateInKbps: previous ? rate(delta(counters.bytesReceived, previous.bytesReceived)) : null,
+    bitrateOutKbps: previous ? rate(delta(counters.bytesSent, previous.bytesSent)) : null,
+    packetLossPercent: received + lost > 0 ? Math.min(100, (lost / (received + lost)) * 100) : null,
+    rttMs,
+    jitterMs,
+    resolution,
+  };
+  return { sample, counters };
+};
+
+// What is wrong with a sample, worded for a warning; empty when all is well.
+export const describeDegradation = (sample: CallStatsSample) => {
+  const problems: string[] = [];
+  if (sample.packetLossPercent !== null && sample.packetLossPercent > MAX_PACKET_LOSS_PERCENT) {
+    problems.push(`${Math.round(sample.packetLossPercent)}% packet loss`);
+  }
+  if (sample.rttMs !== null && sample.rttMs > MAX_RTT_MS) {
+    problems.push(`${Math.round(sample.rttMs)} ms delay`);
+  }
+  if (sample.jitterMs !== null && sample.jitterMs > MAX_JITTER_MS) {
+    problems.push(`${Math.round(sample.jitterMs)} ms jitter`);
+  }
+  return problems;
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : undefined;
+const maximum = (values: number[]) => (values.length > 0 ? Math.round(Math.max(...values) * 10) / 10 : undefined);
+
+export const summarizeSamples = (remoteEmail: string | null, samples: CallStatsSample[]): CallQualityReport => {
+  const known = (key: keyof Omit<CallStatsSample, "resolution">) =>
+    samples.map((sample) => sample[key]).filter((value): value is number => value !== null);
+  const resolutions = samples.map((sample) => sample.resolution).filter((value): value is string => value !== null);
+
+  return {
+    remoteEmail,
+    windowStart: new Date(samples[0].at).toISOString(),
+    windowEnd: new Date(samples[samples.length - 1].at).toISOString(),
+    sampleCount: samples.length,
+    avgBitrateInKbps: average(known("bitrateInKbps")),
+    avgBitrateOutKbps: average(known("bitrateOutKbps")),
+    avgPacketLossPercent: average(known("packetLossPercent")),
+    maxPacketLossPercent: maximum(known("packetLossPercent")),
+    avgRttMs: average(known("rttMs")),
+    maxRttMs: maximum(known("rttMs")),
+    avgJitterMs: average(known("jitterMs")),
+    resolution: resolutions[resolutions.length - 1],
+    degradedSamples: samples.filter((sample) => describeDegradation(sample).length > 0).length,
+  };
+};
@@ -0,0 +1,44 @@
+export type ChatMessage = {
+  _id: string;
+  text: string;
+  authorName: string;
+  authorEmail: string;
+  authorRole: string;
+  sentAt: string;
+};
+
+export type ChatSegment =
+  | { type: "text"; value: string }
+  | { type: "link"; value: string }
+  | { type: "inline-code"; value: string }
+  | { type: "code-block"; value: string; language: string };
+
+const CODE_BLOCK = /```([\w+-]*)\n?([\s\S]*?)```/g;
+const INLINE = /(`[^`\n]+`|https?:\/\/[^\s<>"']+)/g;
+
+const splitInline = (text: string): ChatSegment[] =>
+  text
+    .split(INLINE)
+    .filter((part) => part !== "")
+    .map((part) => {
+      if (part.startsWith("`") && part.endsWith("`") && part.length > 1) {
+        return { type: "inline-code", value: part.slice(1, -1) };
+      }
+      if (/^https?:\/\//.test(part)) return { type: "link", value: part };
+      return { type: "text", value: part };
+    });
+
+// Markdown-style code: ```fenced blocks``` with an optional language, and
+// `inline code`. Links are picked out of the plain text so they can be clicked.
+export const parseChatMessage = (text: string): ChatSegment[] => {
+  const segments: ChatSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(CODE_BLOCK)) {
+    segments.push(...splitInline(text.slice(last, match.index)));
+    segments.push({ type: "code-block", language: match[1], value: match[2].replace(/\n$/, "") });
+    last = (match.index ?? 0) + match[0].length;
+  }
+  segments.push(...splitInline(text.slice(last)));
+  return segments;
+};
@@ -0,0 +1,50 @@
+export type IntegrityEventType =
+  | "paste"
+  | "window-blur"
+  | "window-focus"
+  | "tab-hidden"
+  | "tab-visible"
+  | "fullscreen-exit"
+  | "devtools-open";
+
+export type IntegrityEvent = {
+  // Present once the event has been stored on the interview.
+  _id?: string;
+  type: IntegrityEventType;
+  occurredAt: string;
+  durationMs?: number;
+  pastedLength?: number;
+  pastedExcerpt?: string;
+};
+
+// Pastes shorter than this are ordinary editing, e.g. moving a line around.
+export const LARGE_PASTE_CHARS = 150;
+export const PASTE_EXCERPT_CHARS = 500;
+
+// Events that mean the candidate stopped looking at the interview.
+export const AWAY_EVENT_TYPES: IntegrityEventType[] = ["window-blur", "tab-hidden", "fullscreen-exit", "devtools-open"];
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const describeIntegrityEvent = (event: IntegrityEvent) => {
+  const away = event.durationMs !== undefined ? ` after ${formatDuration(event.durationMs)}` : "";
+  switch (event.type) {
+    case "paste":
+      return `Pasted ${event.pastedLength ?? "?"} characters into the editor`;
+    case "window-blur":
+      return "Left the interview window";
+    case "window-focus":
+      return `Came back to the interview window${away}`;
+    case "tab-hidden":
+      return "Switched to another tab";
+    case "tab-visible":
+      return `Came back to the interview tab${away}`;
+    case "fullscreen-exit":
+      return "Exited fullscreen";
+    case "devtools-open":
+      return "Browser developer tools appear to be open";
+  }
+};
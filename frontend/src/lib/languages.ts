@@ -0,0 +1,89 @@
+import type * as Monaco from "monaco-editor";
+import languagePacks from "../../../shared/languages.json";
+
+export type LanguageSnippet = {
+  label: string;
+  insertText: string;
+  detail: string;
+  kind: "keyword" | "function" | "snippet";
+};
+
+// How the backend runs a language. Arguments may hold placeholders such as
+// {entryFile} or {sources}, which the code runner fills in per run.
+export type LanguageExecution = {
+  compile?: string[];
+  run: string[];
+  // Which files {sources} expands to.
+  sources?: { extension: string; entryDirectoryOnly?: boolean };
+  // Source rewrite applied before running, e.g. "typescript" to transpile to JavaScript.
+  transform?: string;
+  // Added to the memory limit for runtimes that reserve address space up front.
+  addressSpaceHeadroomMb?: number;
+};
+
+export type LanguagePack = {
+  // Language name understood by the /execute endpoint and used for starter code keys.
+  id: string;
+  label: string;
+  monacoId: string;
+  // The first extension is the one given to a new entry file.
+  extensions: string[];
+  // Set when the language dictates the entry file's name, e.g. Java's public class.
+  entryFileName?: string;
+  // Set for languages run in the browser instead of through /execute: SQL against
+  // the problem's fixture, web pages in a live preview.
+  browserRunner?: "sql" | "preview";
+  starter: string;
+  snippets: LanguageSnippet[];
+  // Absent for languages run in the browser.
+  execution?: LanguageExecution;
+};
+
+// The registry is shared with the backend, which runs code from each pack's
+// execution config, so adding a language is an edit to that file alone.
+export const LANGUAGE_PACKS = languagePacks as LanguagePack[];
+
+export const getLanguagePack = (id: string) => LANGUAGE_PACKS.find((pack) => pack.id === id);
+
+export const findLanguagePackByExtension = (extension: string) =>
+  LANGUAGE_PACKS.find((pack) => pack.extensions.includes(extension));
+
+let registered = false;
+
+// Completion providers are global to monaco, so they are added once per page
+// rather than every time a language is picked.
+export const registerLanguagePacks = (monaco: typeof Monaco) => {
+  if (registered) return;
+  registered = true;
+
+  const kinds = {
+    keyword: monaco.languages.CompletionItemKind.Keyword,
+    function: monaco.languages.CompletionItemKind.Function,
+    snippet: monaco.languages.CompletionItemKind.Snippet,
+  };
+
+  LANGUAGE_PACKS.filter((pack) => pack.snippets.length > 0).forEach((pack) => {
+    monaco.languages.registerCompletionItemProvider(pack.monacoId, {
+      provideCompletionItems: (model, position) => {
+        const word = model.getWordUntilPosition(position);
+        const range = {
+          startLineNumber: position.lineNumber,
+          endLineNumber: position.lineNumber,
+          startColumn: word.startColumn,
+          endColumn: word.endColumn,
+        };
+
+        return {
+          suggestions: pack.snippets.map((snippet) => ({
+            label: snippet.label,
+            kind: kinds[snippet.kind],
+            insertText: snippet.insertText,
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            detail: snippet.detail,
+            range,
+          })),
+        };
+      },
+    });
+  });
+};
@@ -0,0 +1,31 @@
+// The camera, microphone and speaker a user picked, remembered per user in
+// this browser. Unset entries mean the browser default.
+export type DevicePreferences = {
+  cameraId?: string;
+  microphoneId?: string;
+  speakerId?: string;
+};
+
+const storageKey = (userKey: string) => `devicePreferences:${userKey}`;
+
+export const loadDevicePreferences = (userKey: string): DevicePreferences => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userKey)) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const saveDevicePreferences = (userKey: string, preferences: DevicePreferences) =>
+  localStorage.setItem(storageKey(userKey), JSON.stringify(preferences));
+
+// A remembered device that has since been unplugged should not stop the call
+// from starting, so it is only preferred here. Switching devices mid-call
+// asks for the exact one instead.
+export const mediaConstraints = (preferences: DevicePreferences): MediaStreamConstraints => ({
+  video: preferences.cameraId ? { deviceId: { ideal: preferences.cameraId } } : true,
+  audio: preferences.microphoneId ? { deviceId: { ideal: preferences.microphoneId } } : true,
+});
+
+// Only setSinkId-capable browsers can route call audio to another output.
+export const canChooseSpeaker = () => "setSinkId" in HTMLMediaElement.prototype;
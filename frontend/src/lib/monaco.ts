@@ -0,0 +1,21 @@
+import * as monaco from "monaco-editor";
+import { loader } from "@monaco-editor/react";
+import editorWorker from "monaco-editor/esm/vs/editor/editor.worker?worker";
+import tsWorker from "monaco-editor/esm/vs/language/typescript/ts.worker?worker";
+import { registerLanguagePacks } from "./languages";
+
+// The editor and the Yjs binding must share one monaco instance, so the bundled
+// copy is used instead of the CDN build @monaco-editor/react loads by default.
+self.MonacoEnvironment = {
+  getWorker(_workerId: string, label: string) {
+    if (label === "typescript" || label === "javascript") {
+      return new tsWorker();
+    }
+    return new editorWorker();
+  },
+};
+
+loader.config({ monaco });
+registerLanguagePacks(monaco);
+
+export default monaco;
@@ -0,0 +1,173 @@
+import { transform } from "sucrase";
+import reactUmdUrl from "react-umd/umd/react.development.js?url";
+import reactDomUmdUrl from "react-dom-umd/umd/react-dom.development.js?url";
+import { WorkspaceFile, getExtension } from "./workspace";
+
+export const PREVIEW_MESSAGE_SOURCE = "virtualhire-preview";
+
+export type PreviewConsoleEntry = {
+  level: "log" | "info" | "warn" | "error";
+  text: string;
+};
+
+const MODULE_EXTENSIONS = ["js", "mjs", "jsx", "ts", "tsx", "css", "json"];
+
+// Served from the app's own assets, pinned in package.json, so previews work
+// without reaching a CDN. The preview document is sandboxed and has no origin
+// of its own, so the URLs are made absolute.
+const REACT_UMD_SCRIPTS = [reactUmdUrl, reactDomUmdUrl].map((url) => new URL(url, window.location.href).href);
+
+// Forwards console calls and uncaught errors to the parent window.
+const CONSOLE_BRIDGE = `
+(function () {
+  var SOURCE = ${JSON.stringify(PREVIEW_MESSAGE_SOURCE)};
+  function format(value) {
+    if (typeof value === "string") return value;
+    if (value instanceof Error) return value.stack || value.message;
+    try { return JSON.stringify(value); } catch (error) { return String(value); }
+  }
+  function send(level, args) {
+    parent.postMessage({ source: SOURCE, level: level, text: args.map(format).join(" ") }, "*");
+  }
+  ["log", "info", "warn", "error"].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      send(level, args);
+      original.apply(console, args);
+    };
+  });
+  window.addEventListener("error", function (event) {
+    send("error", [event.message + (event.lineno ? " (line " + event.lineno + ")" : "")]);
+  });
+  window.addEventListener("unhandledrejection", function (event) {
+    send("error", ["Unhandled rejection: " + format(event.reason)]);
+  });
+})();
+`;
+
+// A CommonJS-style loader for the compiled workspace modules. Bare imports of
+// react and react-dom resolve to the UMD globals loaded ahead of it.
+const MODULE_LOADER = `
+var __cache = {};
+var __externals = {
+  "react": function () { return window.React; },
+  "react-dom": function () { return window.ReactDOM; },
+  "react-dom/client": function () { return window.ReactDOM; },
+  "react/jsx-runtime": function () {
+    var jsx = function (type, props, key) {
+      return window.React.createElement(type, key === undefined ? props : Object.assign({}, props, { key: key }));
+    };
+    return { jsx: jsx, jsxs: jsx, Fragment: window.React.Fragment };
+  }
+};
+function __resolve(from, specifier) {
+  var parts = from.split("/").slice(0, -1);
+  specifier.split("/").forEach(function (part) {
+    if (part === "..") parts.pop();
+    else if (part !== ".") parts.push(part);
+  });
+  var base = parts.join("/");
+  var candidates = [base].concat(${JSON.stringify(MODULE_EXTENSIONS)}.map(function (ext) { return base + "." + ext; }))
+    .concat(${JSON.stringify(MODULE_EXTENSIONS)}.map(function (ext) { return base + "/index." + ext; }));
+  return candidates.find(function (path) { return Object.prototype.hasOwnProperty.call(__modules, path); });
+}
+function __load(path) {
+  if (__cache[path]) return __cache[path].exports;
+  var module = { exports: {} };
+  __cache[path] = module;
+  __modules[path](function (specifier) {
+    if (__externals[specifier]) return __externals[specifier]();
+    var resolved = specifier.charAt(0) === "." ? __resolve(path, specifier) : undefined;
+    if (!resolved) throw new Error("Cannot find module '" + specifier + "' from " + path);
+    return __load(resolved);
+  }, module, module.exports);
+  return module.exports;
+}
+function __injectStyle(css) {
+  var style = document.createElement("style");
+  style.textContent = css;
+  document.head.appendChild(style);
+}
+`;
+
+// Inline scripts end at the first "</script", wherever it appears.
+const escapeScript = (code: string) => code.replace(/<\/script/gi, "<\\/script");
+
+const compileModule = (file: WorkspaceFile) => {
+  const extension = getExtension(file.path);
+  if (extension === "css") return `__injectStyle(${JSON.stringify(file.content)});`;
+  if (extension === "json") return `module.exports = ${file.content};`;
+
+  try {
+    const transforms: ("jsx" | "typescript" | "imports")[] = ["imports"];
+    if (extension === "jsx" || extension === "tsx") transforms.push("jsx");
+    if (extension === "ts" || extension === "tsx") transforms.push("typescript");
+
+    return transform(file.content, { transforms, jsxRuntime: "automatic", production: true, filePath: file.path }).code;
+  } catch (error) {
+    return `throw new SyntaxError(${JSON.stringify(`${file.path}: ${(error as Error).message}`)});`;
+  }
+};
+
+// Resolves an attribute like "./styles/app.css" from the HTML file's folder.
+const resolveReference = (htmlPath: string, reference: string | null, paths: Set<string>) => {
+  if (!reference || /^[a-z]+:|^\/\//i.test(reference)) return null;
+
+  const parts = htmlPath.split("/").slice(0, -1);
+  reference.replace(/^\//, "").split("/").forEach((part) => {
+    if (part === "..") parts.pop();
+    else if (part !== ".") parts.push(part);
+  });
+  const resolved = parts.join("/");
+  return paths.has(resolved) ? resolved : null;
+};
+
+// Turns the workspace into a single self-contained document for the preview
+// iframe: stylesheets and scripts referenced by the entry HTML are inlined and
+// script files are compiled (JSX and TypeScript included) into a small module loader.
+export const buildPreviewDocument = (files: WorkspaceFile[], entryFile: string) => {
+  const entry = files.find((file) => file.path === entryFile);
+  if (!entry) return "<!DOCTYPE html><p>Create an index.html to see the preview.</p>";
+
+  const paths = new Set(files.map((file) => file.path));
+  const byPath = new Map(files.map((file) => [file.path, file.content]));
+  const doc = new DOMParser().parseFromString(entry.content, "text/html");
+
+  doc.querySelectorAll('link[rel="stylesheet"]').forEach((link) => {
+    const path = resolveReference(entryFile, link.getAttribute("href"), paths);
+    if (!path) return;
+    const style = doc.createElement("style");
+    style.textContent = byPath.get(path) || "";
+    link.replaceWith(style);
+  });
+
+  doc.querySelectorAll("script[src]").forEach((script) => {
+    const path = resolveReference(entryFile, script.getAttribute("src"), paths);
+    if (!path) return;
+    // Module and deferred scripts wait for the document, as they would if loaded normally.
+    const deferred = script.getAttribute("type") === "module" || script.hasAttribute("defer");
+    const load = `__load(${JSON.stringify(path)});`;
+    const inline = doc.createElement("script");
+    inline.textContent = deferred ? `document.addEventListener("DOMContentLoaded", function () { ${load} });` : load;
+    script.replaceWith(inline);
+  });
+
+  const modules = files
+    .filter((file) => MODULE_EXTENSIONS.includes(getExtension(file.path)))
+    .map((file) => ({ path: file.path, code: compileModule(file) }));
+  const usesReact = modules.some((module) => /require\(['"]react(-dom)?(\/[a-z-]+)?['"]\)/.test(module.code));
+
+  const registry = `var __modules = {\n${modules
+    .map((module) => `${JSON.stringify(module.path)}: function (require, module, exports) {\n${module.code}\n}`)
+    .join(",\n")}\n};\n${MODULE_LOADER}`;
+
+  const head = [
+    `<script>${CONSOLE_BRIDGE}</script>`,
+    ...(usesReact ? REACT_UMD_SCRIPTS.map((src) => `<script src="${src}"></script>`) : []),
+    `<script>${escapeScript(registry)}</script>`,
+  ].join("\n");
+  doc.head.insertAdjacentHTML("afterbegin", head);
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
@@ -0,0 +1,19 @@
+import { io, Socket } from "socket.io-client";
+
+// The login cookie is readable by scripts, so the token can go along with the
+// handshake and let the signaling server check who is connecting.
+const getAuthToken = () =>
+  document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith("token="))
+    ?.slice("token=".length);
+
+// One connection to the signaling server shared by everything in the interview
+// room. It is opened by the room itself, after login, and the token is read
+// again on every reconnect.
+const socket: Socket = io("http://localhost:8013", {
+  autoConnect: false,
+  auth: (cb) => cb({ token: getAuthToken() }),
+});
+
+export default socket;
@@ -0,0 +1,39 @@
+import type { SqlValue } from "sql.js";
+import SqlWorker from "./sqlWorker?worker";
+
+export type SqlTable = {
+  columns: string[];
+  rows: SqlValue[][];
+};
+
+export type SqlRunResult = {
+  tables: SqlTable[];
+  error: string | null;
+  timedOut: boolean;
+  durationMs: number;
+};
+
+const SQL_TIMEOUT_MS = 5000;
+
+// Queries run in a throwaway worker so a runaway recursive CTE can be killed
+// without freezing the editor.
+export const runSql = (fixture: string, query: string) =>
+  new Promise<SqlRunResult>((resolve) => {
+    const worker = new SqlWorker();
+    const startedAt = performance.now();
+    const finish = (result: Omit<SqlRunResult, "durationMs">) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ ...result, durationMs: Math.round(performance.now() - startedAt) });
+    };
+
+    const timer = setTimeout(
+      () => finish({ tables: [], error: "Query took too long and was stopped.", timedOut: true }),
+      SQL_TIMEOUT_MS
+    );
+
+    worker.onmessage = (event: MessageEvent<{ tables: SqlTable[]; error: string | null }>) =>
+      finish({ ...event.data, timedOut: false });
+    worker.onerror = (event) => finish({ tables: [], error: event.message || "SQL engine failed to start.", timedOut: false });
+    worker.postMessage({ fixture, query });
+  });
@@ -0,0 +1,29 @@
+import initSqlJs from "sql.js";
+import wasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+
+export type SqlWorkerRequest = { fixture: string; query: string };
+
+const sqlJs = initSqlJs({ locateFile: () => wasmUrl });
+
+// Each run seeds a fresh database, so a candidate's DROP TABLE only lasts one run.
+self.onmessage = async (event: MessageEvent<SqlWorkerRequest>) => {
+  const SQL = await sqlJs;
+  const db = new SQL.Database();
+
+  try {
+    db.exec(event.data.fixture);
+  } catch (error) {
+    self.postMessage({ tables: [], error: `Fixture failed: ${(error as Error).message}` });
+    db.close();
+    return;
+  }
+
+  try {
+    const tables = db.exec(event.data.query).map(({ columns, values }) => ({ columns, rows: values }));
+    self.postMessage({ tables, error: null });
+  } catch (error) {
+    self.postMessage({ tables: [], error: (error as Error).message });
+  } finally {
+    db.close();
+  }
+};
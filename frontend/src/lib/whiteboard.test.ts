@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import { getWhiteboardShapes, readShapes, shapeBounds } from "./whiteboard";
+
+const base = { color: "#2563eb" };
+
+describe("readShapes", () => {
+  it("drops entries that would not render", () => {
+    const doc = new Y.Doc();
+    const map = getWhiteboardShapes(doc) as unknown as Y.Map<unknown>;
+    map.set("rect", { ...base, id: "rect", type: "rect", x: 0, y: 0, width: 10, height: 10, createdAt: 2 });
+    map.set("line", { ...base, id: "line", type: "freehand", points: [0, 0, 5, 5], createdAt: 1 });
+    map.set("no-points", { ...base, id: "no-points", type: "freehand", createdAt: 3 });
+    map.set("bad-points", { ...base, id: "bad-points", type: "freehand", points: [0, "x"], createdAt: 4 });
+    map.set("odd-points", { ...base, id: "odd-points", type: "freehand", points: [0, 0, 1], createdAt: 5 });
+    map.set("no-text", { ...base, id: "no-text", type: "text", x: 0, y: 0, createdAt: 6 });
+    map.set("bad-color", { id: "bad-color", type: "arrow", x: 0, y: 0, x2: 1, y2: 1, color: "red;", createdAt: 7 });
+    map.set("unknown", { ...base, id: "unknown", type: "star", x: 0, y: 0, createdAt: 8 });
+    map.set("null", null);
+
+    const shapes = readShapes(doc);
+
+    expect(shapes.map((shape) => shape.id)).toEqual(["line", "rect"]);
+    expect(() => shapes.map(shapeBounds)).not.toThrow();
+  });
+});
@@ -0,0 +1,184 @@
+import * as Y from "yjs";
+
+type ShapeBase = {
+  id: string;
+  color: string;
+  // Creation time, used to stack later shapes on top of earlier ones.
+  createdAt: number;
+};
+
+export type WhiteboardShape =
+  | (ShapeBase & { type: "rect" | "ellipse"; x: number; y: number; width: number; height: number })
+  | (ShapeBase & { type: "arrow"; x: number; y: number; x2: number; y2: number })
+  | (ShapeBase & { type: "text"; x: number; y: number; text: string })
+  // Flat list of coordinates: x0, y0, x1, y1, ...
+  | (ShapeBase & { type: "freehand"; points: number[] });
+
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+export const TEXT_FONT_SIZE = 18;
+
+// Shapes are stored whole and replaced on every change, which keeps
+// concurrent edits to different shapes independent.
+export const getWhiteboardShapes = (doc: Y.Doc) => doc.getMap<WhiteboardShape>("whiteboard");
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isCoordinate = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const hasCoordinates = (value: Record<string, unknown>, keys: string[]) => keys.every((key) => isCoordinate(value[key]));
+
+// Shapes come from whoever is on the board, so an entry that would not render
+// is dropped instead of taking the room down with it.
+export const toShape = (value: unknown): WhiteboardShape | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const shape = value as Record<string, unknown>;
+  if (typeof shape.id !== "string" || typeof shape.color !== "string" || !HEX_COLOR.test(shape.color)) return null;
+  if (!isCoordinate(shape.createdAt)) return null;
+
+  switch (shape.type) {
+    case "rect":
+    case "ellipse":
+      return hasCoordinates(shape, ["x", "y", "width", "height"]) ? (shape as WhiteboardShape) : null;
+    case "arrow":
+      return hasCoordinates(shape, ["x", "y", "x2", "y2"]) ? (shape as WhiteboardShape) : null;
+    case "text":
+      return hasCoordinates(shape, ["x", "y"]) && typeof shape.text === "string" ? (shape as WhiteboardShape) : null;
+    case "freehand":
+      return Array.isArray(shape.points) && shape.points.length >= 2 && shape.points.length % 2 === 0 &&
+        shape.points.every(isCoordinate)
+        ? (shape as WhiteboardShape)
+        : null;
+    default:
+      return null;
+  }
+};
+
+export const readShape = (doc: Y.Doc, id: string) => toShape(getWhiteboardShapes(doc).get(id));
+
+export const readShapes = (doc: Y.Doc) =>
+  Array.from(getWhiteboardShapes(doc).values())
+    .map(toShape)
+    .filter((shape): shape is WhiteboardShape => shape !== null)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+export const clearWhiteboard = (doc: Y.Doc) => {
+  const shapes = getWhiteboardShapes(doc);
+  doc.transact(() => {
+    Array.from(shapes.keys()).forEach((id) => shapes.delete(id));
+  });
+};
+
+// Rectangles and ellipses drawn leftwards or upwards get positive sizes.
+export const normalizeShape = (shape: WhiteboardShape): WhiteboardShape => {
+  if (shape.type !== "rect" && shape.type !== "ellipse") return shape;
+  return {
+    ...shape,
+    x: Math.min(shape.x, shape.x + shape.width),
+    y: Math.min(shape.y, shape.y + shape.height),
+    width: Math.abs(shape.width),
+    height: Math.abs(shape.height),
+  };
+};
+
+export const isEmptyShape = (shape: WhiteboardShape) => {
+  switch (shape.type) {
+    case "rect":
+    case "ellipse":
+      return Math.abs(shape.width) < 2 && Math.abs(shape.height) < 2;
+    case "arrow":
+      return Math.hypot(shape.x2 - shape.x, shape.y2 - shape.y) < 2;
+    case "text":
+      return !shape.text.trim();
+    case "freehand":
+      return shape.points.length < 4;
+  }
+};
+
+export const moveShape = (shape: WhiteboardShape, dx: number, dy: number): WhiteboardShape => {
+  switch (shape.type) {
+    case "arrow":
+      return { ...shape, x: shape.x + dx, y: shape.y + dy, x2: shape.x2 + dx, y2: shape.y2 + dy };
+    case "freehand":
+      return { ...shape, points: shape.points.map((value, index) => value + (index % 2 === 0 ? dx : dy)) };
+    default:
+      return { ...shape, x: shape.x + dx, y: shape.y + dy };
+  }
+};
+
+export const shapeBounds = (shape: WhiteboardShape): Bounds => {
+  switch (shape.type) {
+    case "rect":
+    case "ellipse":
+      return { minX: shape.x, minY: shape.y, maxX: shape.x + shape.width, maxY: shape.y + shape.height };
+    case "arrow":
+      return {
+        minX: Math.min(shape.x, shape.x2),
+        minY: Math.min(shape.y, shape.y2),
+        maxX: Math.max(shape.x, shape.x2),
+        maxY: Math.max(shape.y, shape.y2),
+      };
+    case "text":
+      // Estimated from the character count; close enough to frame selections and exports.
+      return {
+        minX: shape.x,
+        minY: shape.y - TEXT_FONT_SIZE,
+        maxX: shape.x + shape.text.length * TEXT_FONT_SIZE * 0.6,
+        maxY: shape.y + TEXT_FONT_SIZE * 0.25,
+      };
+    case "freehand": {
+      const xs = shape.points.filter((_, index) => index % 2 === 0);
+      const ys = shape.points.filter((_, index) => index % 2 === 1);
+      return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+    }
+  }
+};
+
+const EXPORT_PADDING = 24;
+
+// Renders the drawing layer of the board, cropped to its shapes, into a PNG.
+export const exportWhiteboardPng = (svg: SVGSVGElement, shapes: WhiteboardShape[]) =>
+  new Promise<Blob>((resolve, reject) => {
+    if (shapes.length === 0) {
+      reject(new Error("The whiteboard is empty."));
+      return;
+    }
+
+    const bounds = shapes.map(shapeBounds).reduce((acc, next) => ({
+      minX: Math.min(acc.minX, next.minX),
+      minY: Math.min(acc.minY, next.minY),
+      maxX: Math.max(acc.maxX, next.maxX),
+      maxY: Math.max(acc.maxY, next.maxY),
+    }));
+    const x = bounds.minX - EXPORT_PADDING;
+    const y = bounds.minY - EXPORT_PADDING;
+    const width = Math.ceil(bounds.maxX - bounds.minX + EXPORT_PADDING * 2);
+    const height = Math.ceil(bounds.maxY - bounds.minY + EXPORT_PADDING * 2);
+
+    // The clone drops the pan/zoom transform and frames the shapes with a viewBox instead.
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.querySelector("[data-viewport]")?.removeAttribute("transform");
+    clone.querySelectorAll("[data-selection]").forEach((node) => node.remove());
+    clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+    clone.setAttribute("viewBox", `${x} ${y} ${width} ${height}`);
+    clone.setAttribute("width", String(width));
+    clone.setAttribute("height", String(height));
+
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available."));
+        return;
+      }
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, width, height);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Export failed."))), "image/png");
+    };
+    image.onerror = () => reject(new Error("Export failed."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`;
+  });
@@ -0,0 +1,102 @@
+import * as Y from "yjs";
+import { findLanguagePackByExtension } from "./languages";
+
+export type WorkspaceFile = {
+  path: string;
+  content: string;
+};
+
+// Monaco language ids for files that are not source in a language pack;
+// anything unknown opens as plain text.
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  json: "json",
+  md: "markdown",
+  html: "html",
+  css: "css",
+  txt: "plaintext",
+};
+
+export const getExtension = (path: string) => {
+  const fileName = path.split("/").pop() || "";
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+};
+
+export const replaceExtension = (path: string, extension: string) => {
+  const current = getExtension(path);
+  const base = current ? path.slice(0, -(current.length + 1)) : path;
+  return `${base}.${extension}`;
+};
+
+export const detectLanguage = (path: string) => {
+  const extension = getExtension(path);
+  return findLanguagePackByExtension(extension)?.monacoId || EXTENSION_LANGUAGES[extension] || "plaintext";
+};
+
+export const getWorkspaceFiles = (doc: Y.Doc) => doc.getMap<Y.Text>("files");
+
+export const getEntryFile = (doc: Y.Doc) => doc.getMap<string>("meta").get("entryFile") || "";
+
+export const readWorkspace = (doc: Y.Doc): WorkspaceFile[] =>
+  Array.from(getWorkspaceFiles(doc).entries())
+    .map(([path, text]) => ({ path, content: text.toString() }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+// Returns an error message for an unusable path, or null when it is fine.
+export const validateFilePath = (path: string, existingPaths: string[]) => {
+  const trimmed = path.trim();
+  if (!trimmed) return "File name cannot be empty.";
+  if (trimmed.startsWith("/") || trimmed.split("/").some((part) => part === ".." || part === "." || !part)) {
+    return "Use a relative path like src/utils.js.";
+  }
+  if (existingPaths.includes(trimmed)) return "A file with that name already exists.";
+  return null;
+};
+
+export const createFile = (doc: Y.Doc, path: string, content = "") => {
+  getWorkspaceFiles(doc).set(path, new Y.Text(content));
+};
+
+export const renameFile = (doc: Y.Doc, fromPath: string, toPath: string) => {
+  const files = getWorkspaceFiles(doc);
+  const text = files.get(fromPath);
+  if (!text) return;
+
+  doc.transact(() => {
+    files.set(toPath, new Y.Text(text.toString()));
+    files.delete(fromPath);
+    if (getEntryFile(doc) === fromPath) {
+      doc.getMap<string>("meta").set("entryFile", toPath);
+    }
+  });
+};
+
+export const deleteFile = (doc: Y.Doc, path: string) => {
+  getWorkspaceFiles(doc).delete(path);
+};
+
+export const setFileContent = (doc: Y.Doc, path: string, content: string) => {
+  const text = getWorkspaceFiles(doc).get(path);
+  if (!text) {
+    createFile(doc, path, content);
+    return;
+  }
+  doc.transact(() => {
+    text.delete(0, text.length);
+    text.insert(0, content);
+  });
+};
+
+// Files that survive a replace keep their Y.Text, so open editors stay bound to them.
+export const replaceWorkspace = (doc: Y.Doc, nextFiles: WorkspaceFile[], entryFile: string) => {
+  const files = getWorkspaceFiles(doc);
+  const nextPaths = new Set(nextFiles.map((file) => file.path));
+
+  doc.transact(() => {
+    Array.from(files.keys())
+      .filter((path) => !nextPaths.has(path))
+      .forEach((path) => files.delete(path));
+    nextFiles.forEach((file) => setFileContent(doc, file.path, file.content));
+    doc.getMap<string>("meta").set("entryFile", entryFile);
+  });
+};
@@ -1,25 +1,44 @@
-import React ,{useState} from "react";
+import React ,{useEffect, useState} from "react";
 import { useParams , useNavigate , useLocation} from "react-router-dom";
 import WebRTCComponent from "../components/ui/WebRTC/WebRTCComponent";
-import CameraPreview from "../components/ui/WebRTC/CameraPreview";
 import CodeEditor from "../components/ui/CodeEditor";
-import { MicOff, Mic, Video, VideoOff, Phone } from "lucide-react";
+import Whiteboard from "../components/ui/Whiteboard";
+import IntegrityFeed from "../components/ui/IntegrityFeed";
+import WaitingList from "../components/ui/WaitingList";
+import WaitingRoom from "../components/ui/WaitingRoom";
+import ChatPanel from "../components/ui/ChatPanel";
+import DevicePicker from "../components/ui/WebRTC/DevicePicker";
+import { MicOff, Mic, Video, VideoOff, Phone, Lock, Unlock, Snowflake, ShieldAlert, Maximize, ScreenShare, ScreenShareOff, Settings, DoorClosed, DoorOpen, MessageSquare } from "lucide-react";
 import useSubtitles from "../hooks/useSubtitles";
+import useCollaborativeDocument, { pickCursorColor } from "../hooks/useCollaborativeDocument";
+import useEditorControl from "../hooks/useEditorControl";
+import useIntegrityMonitor from "../hooks/useIntegrityMonitor";
+import useIntegrityFeed from "../hooks/useIntegrityFeed";
+import useWaitingRoom from "../hooks/useWaitingRoom";
+import useMediaSession from "../hooks/useMediaSession";
+import useHostControls from "../hooks/useHostControls";
+import useChat from "../hooks/useChat";
+import socket from "../lib/socket";
 import axios from "axios";
 import {BASE_URL}  from "../constants/index";
 
 const InterviewRoom: React.FC = () => {
 
-  const [cameraOn , setCameraOn] = useState(true);
-  const [micOn, setMicOn] = useState(true);
+  const [screenSharing, setScreenSharing] = useState(false);
   const [subtitle, setSubtitle] = useState("");
+  const [workspaceView, setWorkspaceView] = useState<"code" | "whiteboard">("code");
+  const [showIntegrity, setShowIntegrity] = useState(false);
+  const [seenIntegrityCount, setSeenIntegrityCount] = useState(0);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [showDevices, setShowDevices] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [seenChatCount, setSeenChatCount] = useState(0);
+  // Shared with the setup dialog and the call, so these toggles mute what the others receive.
+  const { cameraOn, micOn, setCameraOn, setMicOn, devicePreferences, setDevicePreferences } = useMediaSession();
 
   const location = useLocation();
   const queryParams = new URLSearchParams(location.search);
 
-  const candidateName = queryParams.get("candidate") || "Candidate";
-  const recruiterName = queryParams.get("recruiter") || "Recruiter";
-
   const storedUser = localStorage.getItem('user');
   let user;
   if(storedUser){
@@ -42,7 +61,82 @@ const InterviewRoom: React.FC = () => {
   };
 
   const roomId = queryParams.get("roomId") || "default-room";
+
+  // The room owns the signaling connection. Its hooks register their joins
+  // first, and those are sent as soon as the handshake goes through.
+  useEffect(() => {
+    // Network errors are retried by socket.io; only a refused login stops it.
+    const handleConnectError = (error: Error) => {
+      if (!socket.active) setAccessError(error.message);
+    };
+    const handleRoomDenied = ({ message }: { message: string }) => setAccessError(message);
+
+    socket.on("connect_error", handleConnectError);
+    socket.on("room-denied", handleRoomDenied);
+    socket.connect();
+
+    return () => {
+      socket.off("connect_error", handleConnectError);
+      socket.off("room-denied", handleRoomDenied);
+      socket.disconnect();
+    };
+  }, []);
+
   useSubtitles(roomId, setSubtitle);
+
+  // Registered before the room is joined so the current mode sent on join is not missed.
+  const editorControl = useEditorControl(socket, roomId);
+  const waitingRoom = useWaitingRoom(socket, roomId);
+  const hostControls = useHostControls(socket, roomId);
+  const isRecruiter = user?.role === "recruiter";
+  const codeReadOnly =
+    editorControl.mode === "frozen" || (editorControl.mode === "locked" && !isRecruiter);
+
+  // Nothing is recorded while the candidate is still in the lobby.
+  const { reportPaste } = useIntegrityMonitor(roomId, user?.role === "candidate" && waitingRoom.status === "joined");
+  const integrityEvents = useIntegrityFeed(socket, roomId, isRecruiter);
+  const unseenIntegrityCount = showIntegrity ? 0 : integrityEvents.length - seenIntegrityCount;
+
+  const toggleIntegrity = () => {
+    setShowIntegrity((prev) => !prev);
+    setSeenIntegrityCount(integrityEvents.length);
+  };
+
+  const chat = useChat(socket, roomId, waitingRoom.status === "joined");
+  const selfEmail: string | null = user?.email || null;
+  // Only what others wrote counts as unread.
+  const receivedChatCount = chat.messages.filter((message) => message.authorEmail !== selfEmail).length;
+  const unreadChatCount = showChat ? 0 : receivedChatCount - seenChatCount;
+
+  const toggleChat = () => {
+    setShowChat((prev) => !prev);
+    setSeenChatCount(receivedChatCount);
+  };
+
+  // The editor and the whiteboard are two views of the same shared room document.
+  const participantName: string = user?.name || "Participant";
+  const session = useCollaborativeDocument(socket, roomId, {
+    name: participantName,
+    role: user?.role || "guest",
+    color: pickCursorColor(user?.email || participantName),
+  });
+
+  if (accessError) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen gap-4 bg-white">
+        <p className="text-lg font-semibold text-red-600">Could not join the interview room.</p>
+        <p className="text-gray-600">{accessError}</p>
+        <button onClick={() => (window.location.href = "/")} className="px-4 py-2 border rounded-md hover:bg-gray-100">
+          Back to home
+        </button>
+      </div>
+    );
+  }
+
+  if (waitingRoom.status !== "joined") {
+    return <WaitingRoom status={waitingRoom.status} />;
+  }
+
   return (
     <div className="min-h-screen pb-0 bg-white">
       
@@ -50,54 +144,98 @@ const InterviewRoom: React.FC = () => {
       <div className="flex flex-row gap-4 h-[85vh] px-4 pt-4">
         
         <div className="flex flex-col w-1/2 h-full gap-4">
-        {user?.role === "candidate" ? (
-    <>
-      
-      <div className="flex-1 overflow-hidden bg-white border rounded-lg shadow-sm">
-        <div className="p-4 h-[calc(100%-48px)] flex items-center justify-center">
-          <WebRTCComponent />
-        </div>
-        <h2 className="p-3 text-lg font-semibold border-b">{recruiterName}</h2>
-      </div>
-
-      
-      <div className="flex-1 overflow-hidden bg-white border rounded-lg shadow-sm">
-        <div className="p-4 h-[calc(100%-48px)] flex items-center justify-center">
-          <CameraPreview cameraOn={cameraOn} micOn={micOn}/>
-        </div>
-        <h2 className="p-3 text-lg font-semibold border-b">{candidateName}</h2>
-      </div>
-    </>
-  ) : (
-    <>
-      
-      <div className="flex-1 overflow-hidden bg-white border rounded-lg shadow-sm">
-        <div className="p-4 h-[calc(100%-48px)] flex items-center justify-center">
-          <WebRTCComponent />
-        </div>
-        <h2 className="p-3 text-lg font-semibold border-b">{candidateName}</h2>
-      </div>
-
-      
-      <div className="flex-1 overflow-hidden bg-white border rounded-lg shadow-sm">
-        <div className="p-4 h-[calc(100%-48px)] flex items-center justify-center">
-          <CameraPreview cameraOn={cameraOn} micOn={micOn}/>
-        </div>
-        <h2 className="p-3 text-lg font-semibold border-b">{recruiterName}</h2>
-      </div>
-    </>
-  )}
+          <WaitingList waiting={waitingRoom.waiting} onAdmit={waitingRoom.admit} onDeny={waitingRoom.deny} />
+          <WebRTCComponent
+            screenSharing={screenSharing}
+            onScreenShareEnded={() => setScreenSharing(false)}
+            hostControls={isRecruiter ? hostControls : null}
+          />
         </div>
 
         
         <div className="w-4/5 h-full p-4 overflow-hidden bg-white border rounded-lg shadow-sm">
-          <h2 className="mb-2 text-lg font-semibold">Code Editor</h2>
-          <div className="h-full p-4 bg-gray-100 rounded-md">
-            <CodeEditor/>
+          <div className="flex items-center gap-4 mb-2">
+            {(["code", "whiteboard"] as const).map((view) => (
+              <button
+                key={view}
+                onClick={() => setWorkspaceView(view)}
+                className={`text-lg font-semibold ${workspaceView === view ? "" : "text-gray-400 hover:text-gray-600"}`}
+              >
+                {view === "code" ? "Code Editor" : "Whiteboard"}
+              </button>
+            ))}
+            <div className="flex items-center gap-2 ml-auto text-sm">
+              {editorControl.mode !== "open" && (
+                <span className="text-gray-500">
+                  {editorControl.mode === "locked" ? "Editor locked" : "Editor frozen"}
+                  {editorControl.changedBy ? ` by ${editorControl.changedBy}` : ""}
+                </span>
+              )}
+              {isRecruiter && (
+                <>
+                  <button
+                    onClick={() => editorControl.setMode(editorControl.mode === "locked" ? "open" : "locked")}
+                    className="flex items-center gap-1 px-3 py-1 border rounded-md hover:bg-gray-100"
+                  >
+                    {editorControl.mode === "locked" ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                    {editorControl.mode === "locked" ? "Give control back" : "Take control"}
+                  </button>
+                  <button
+                    onClick={() => editorControl.setMode(editorControl.mode === "frozen" ? "open" : "frozen")}
+                    className={`flex items-center gap-1 px-3 py-1 border rounded-md ${
+                      editorControl.mode === "frozen" ? "bg-blue-100 border-blue-300" : "hover:bg-gray-100"
+                    }`}
+                  >
+                    <Snowflake className="w-4 h-4" />
+                    {editorControl.mode === "frozen" ? "Unfreeze" : "Freeze"}
+                  </button>
+                  <button
+                    onClick={() => hostControls.setLocked(!hostControls.locked)}
+                    title={hostControls.locked ? "Let new people ask to join again" : "Stop anyone new from joining"}
+                    className={`flex items-center gap-1 px-3 py-1 border rounded-md ${
+                      hostControls.locked ? "bg-blue-100 border-blue-300" : "hover:bg-gray-100"
+                    }`}
+                  >
+                    {hostControls.locked ? <DoorClosed className="w-4 h-4" /> : <DoorOpen className="w-4 h-4" />}
+                    {hostControls.locked ? "Unlock room" : "Lock room"}
+                  </button>
+                  <div className="relative">
+                    <button
+                      onClick={toggleIntegrity}
+                      className="flex items-center gap-1 px-3 py-1 border rounded-md hover:bg-gray-100"
+                    >
+                      <ShieldAlert className="w-4 h-4" />
+                      Integrity
+                      {unseenIntegrityCount > 0 && (
+                        <span className="px-1.5 text-xs text-white bg-orange-500 rounded-full">{unseenIntegrityCount}</span>
+                      )}
+                    </button>
+                    {showIntegrity && (
+                      <div className="absolute right-0 z-20 mt-1 top-full">
+                        <IntegrityFeed events={integrityEvents} />
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+          {/* Both views stay mounted so switching keeps editor state and open tabs. */}
+          <div className={`h-full p-4 bg-gray-100 rounded-md ${workspaceView === "code" ? "" : "hidden"}`}>
+            <CodeEditor session={session} readOnly={codeReadOnly} onPaste={reportPaste}/>
+          </div>
+          <div className={`h-full p-4 bg-gray-100 rounded-md ${workspaceView === "whiteboard" ? "" : "hidden"}`}>
+            <Whiteboard session={session} roomId={roomId}/>
           </div>
         </div>
       </div>
 
+      {showChat && (
+        <div className="fixed z-40 bottom-20 right-4 w-96 h-[60vh]">
+          <ChatPanel messages={chat.messages} selfEmail={selfEmail} onSend={chat.send} onClose={toggleChat} />
+        </div>
+      )}
+
       {subtitle && (
         <div className="fixed bottom-28 left-1/2 transform -translate-x-1/2 z-50 px-6 py-3 bg-black bg-opacity-75 text-white text-lg rounded-2xl shadow-lg max-w-[80%] text-center animate-fadeIn">
           {subtitle}
@@ -117,6 +255,50 @@ const InterviewRoom: React.FC = () => {
           {cameraOn ? <Video className="w-6 h-6 text-white" /> : <VideoOff className="w-6 h-6 text-white" />}
         </button>
         
+        <button
+          onClick={() => setScreenSharing((prev) => !prev)}
+          title={screenSharing ? "Stop sharing" : "Share screen"}
+          className={`p-3 rounded-full ${screenSharing ? "bg-blue-500" : "bg-gray-500"}`}
+        >
+          {screenSharing ? <ScreenShareOff className="w-6 h-6 text-white" /> : <ScreenShare className="w-6 h-6 text-white" />}
+        </button>
+
+        <div className="relative">
+          <button
+            onClick={() => setShowDevices((prev) => !prev)}
+            title="Devices"
+            className={`p-3 rounded-full ${showDevices ? "bg-blue-500" : "bg-gray-500"}`}
+          >
+            <Settings className="w-6 h-6 text-white" />
+          </button>
+          {showDevices && (
+            <div className="absolute left-1/2 z-20 p-3 mb-2 -translate-x-1/2 bg-white border rounded-md shadow-lg bottom-full w-96">
+              <DevicePicker preferences={devicePreferences} onChange={setDevicePreferences} stream={null} />
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={toggleChat}
+          title="Chat"
+          className={`relative p-3 rounded-full ${showChat ? "bg-blue-500" : "bg-gray-500"}`}
+        >
+          <MessageSquare className="w-6 h-6 text-white" />
+          {unreadChatCount > 0 && (
+            <span className="absolute -top-1 -right-1 px-1.5 text-xs text-white bg-orange-500 rounded-full">
+              {unreadChatCount}
+            </span>
+          )}
+        </button>
+
+        <button
+          onClick={() => document.documentElement.requestFullscreen().catch(() => {})}
+          title="Fullscreen"
+          className="p-3 bg-gray-500 rounded-full"
+        >
+          <Maximize className="w-6 h-6 text-white" />
+        </button>
+        
         <button className="p-3 bg-red-600 rounded-full">
           <Phone className="w-6 h-6 text-white" onClick={handleEndCall}/>
         </button>
@@ -24,6 +24,7 @@ import {
   SelectItem,
 } from "../components/ui/select";
 import { Calendar } from "../components/ui/calendar";
+import { Checkbox } from "../components/ui/checkbox";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "../lib/utils";
 import { Popover, PopoverContent, PopoverTrigger } from "../components/ui/popover";
@@ -37,6 +38,7 @@ type Interview = {
   description: string;
   candidate: string;
   interviewer: string;
+  panelists?: string[];
   date: string;
   time: string;
   status: string;
@@ -49,26 +51,47 @@ type Candidate = {
   name: string;
 };
 
+//for panelists
+type Recruiter = {
+  email: string;
+  name: string;
+};
+
+// A panel is the lead interviewer plus at most this many more.
+const MAX_PANELISTS = 3;
+
+//problem bank entry
+type ProblemSummary = {
+  _id: string;
+  title: string;
+  difficulty: string;
+};
+
 const Schedule: React.FC = () => {
   
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [candidate, setCandidate] = useState("");
   const [interviewer, setInterviewer] = useState("");
+  const [panelists, setPanelists] = useState<string[]>([]);
   const [date, setDate] = useState<Date | null>(null);
   const [time, setTime] = useState("");
+  const [selectedProblems, setSelectedProblems] = useState<string[]>([]);
 
   
   const [interviews, setInterviews] = useState<Interview[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
 
   const [candidates,setCandidates] = useState<Candidate[]>([]);
+  const [recruiters, setRecruiters] = useState<Recruiter[]>([]);
+  const [problems, setProblems] = useState<ProblemSummary[]>([]);
 
   const storedUser = localStorage.getItem('user');
   let user;
   if(storedUser){
     user = JSON.parse(storedUser);
   }
+  const isRecruiter: boolean = user?.role === "recruiter";
 
   
   const fetchInterviews = async () => {
@@ -99,10 +122,48 @@ const Schedule: React.FC = () => {
     }
   };
 
+  const fetchRecruiters = async () => {
+    try {
+      const res = await axios.get(`${BASE_URL}/recruiters`, {
+        withCredentials: true,
+      });
+      setRecruiters(res.data.recruiter);
+    } catch (error) {
+      console.error("Error fetching recruiters:", error);
+    }
+  };
+
+  const fetchProblems = async () => {
+    try {
+      const res = await axios.get(`${BASE_URL}/problems`, {
+        withCredentials: true,
+      });
+      setProblems(res.data.problems);
+    } catch (error) {
+      console.error("Error fetching problems:", error);
+    }
+  };
+
   useEffect(() => {
     fetchInterviews();
     fetchCandidates();
-  }, []);
+    if (isRecruiter) {
+      fetchProblems();
+      fetchRecruiters();
+    }
+  }, [isRecruiter]);
+
+  const toggleProblem = (problemId: string, checked: boolean) => {
+    setSelectedProblems((prev) =>
+      checked ? [...prev, problemId] : prev.filter((id) => id !== problemId)
+    );
+  };
+
+  const togglePanelist = (email: string, checked: boolean) => {
+    setPanelists((prev) =>
+      checked ? [...prev, email].slice(0, MAX_PANELISTS) : prev.filter((item) => item !== email)
+    );
+  };
 
   
   const resetForm = () => {
@@ -110,8 +171,10 @@ const Schedule: React.FC = () => {
     setDescription("");
     setCandidate("");
     setInterviewer("");
+    setPanelists([]);
     setDate(null);
     setTime("");
+    setSelectedProblems([]);
   };
 
   
@@ -123,9 +186,11 @@ const Schedule: React.FC = () => {
       description,
       candidate,      
       interviewer,    
+      panelists,
       date: date ? date.toISOString() : null,
       time,
       meetingLink: uuidv4(),
+      problems: selectedProblems,
     };
 
     try {
@@ -241,6 +306,27 @@ const Schedule: React.FC = () => {
                     </Select>
                   </div>
                   
+                  {recruiters.length > 1 && (
+                    <div className="grid items-start grid-cols-4 gap-4">
+                      <Label className="text-right">Panel</Label>
+                      <div className="col-span-3 space-y-2 overflow-auto max-h-32">
+                        {recruiters
+                          .filter((recruiter) => recruiter.email !== interviewer)
+                          .map((recruiter) => (
+                            <label key={recruiter.email} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={panelists.includes(recruiter.email)}
+                                disabled={!panelists.includes(recruiter.email) && panelists.length >= MAX_PANELISTS}
+                                onCheckedChange={(checked) => togglePanelist(recruiter.email, checked === true)}
+                              />
+                              {recruiter.name}
+                              <span className="text-xs text-gray-500">({recruiter.email})</span>
+                            </label>
+                          ))}
+                      </div>
+                    </div>
+                  )}
+                  
                   <div className="grid items-center grid-cols-4 gap-4">
                     <Label htmlFor="date" className="text-right">
                       Pick a Date
@@ -284,6 +370,24 @@ const Schedule: React.FC = () => {
                       required
                     />
                   </div>
+                  
+                  {problems.length > 0 && (
+                    <div className="grid items-start grid-cols-4 gap-4">
+                      <Label className="text-right">Problems</Label>
+                      <div className="col-span-3 space-y-2 overflow-auto max-h-32">
+                        {problems.map((problem) => (
+                          <label key={problem._id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={selectedProblems.includes(problem._id)}
+                              onCheckedChange={(checked) => toggleProblem(problem._id, checked === true)}
+                            />
+                            {problem.title}
+                            <span className="text-xs text-gray-500">({problem.difficulty})</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
                 <DialogFooter>
                   <Button type="submit" className="text-white bg-green-500 hover:bg-green-600"
@@ -323,6 +427,11 @@ const Schedule: React.FC = () => {
                   <p className="text-sm text-gray-500">
                     Interviewer: {interview.interviewer}
                   </p>
+                  {interview.panelists && interview.panelists.length > 0 && (
+                    <p className="text-sm text-gray-500">
+                      Panel: {interview.panelists.join(", ")}
+                    </p>
+                  )}
                   <p className="text-sm text-gray-500">
                     Meeting Link: {interview.meetingLink}
                   </p>
@@ -342,7 +451,7 @@ const Schedule: React.FC = () => {
                     <div className="mt-2">
                     <Button
                       className="mt-2 text-white bg-green-500 hover:bg-green-600"
-                      onClick={() => window.open(`/interview/room?roomId=${interview.meetingLink}&candidate=${interview.candidate}&recruiter=${interview.interviewer}`, "_blank")}
+                      onClick={() => window.open(`/interview/room?roomId=${interview.meetingLink}`, "_blank")}
                     >
                       Join Meeting
                     </Button>
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 
@@ -7,6 +7,16 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // The live preview serves React's UMD builds as assets; the packages'
+      // export maps do not list those files, so they are reached by path.
+      'react-umd': path.resolve(__dirname, './node_modules/react-umd'),
+      'react-dom-umd': path.resolve(__dirname, './node_modules/react-dom-umd'),
+    },
+  },
+  server: {
+    fs: {
+      // The language registry is shared with the backend from the repo root.
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, '../shared')],
     },
   },
 })